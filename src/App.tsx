@@ -7,6 +7,8 @@ import { MainLayout } from './components/layout/MainLayout'
 const LoginPage = lazy(() => import('./pages/LoginPage').then(m => ({ default: m.LoginPage })))
 const CatalogPage = lazy(() => import('./pages/CatalogPage').then(m => ({ default: m.CatalogPage })))
 const TablePage = lazy(() => import('./pages/TablePage').then(m => ({ default: m.TablePage })))
+const ViewPage = lazy(() => import('./pages/ViewPage').then(m => ({ default: m.ViewPage })))
+const SearchPage = lazy(() => import('./pages/SearchPage').then(m => ({ default: m.SearchPage })))
 
 // Simple loading component
 function PageLoader() {
@@ -30,6 +32,8 @@ function App() {
           <Route element={<MainLayout />}>
             <Route path="/catalog" element={<CatalogPage />} />
             <Route path="/table/:namespace/:table" element={<TablePage />} />
+            <Route path="/view/:namespace/:view" element={<ViewPage />} />
+            <Route path="/search" element={<SearchPage />} />
           </Route>
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
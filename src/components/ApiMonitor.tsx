@@ -4,14 +4,18 @@ import { useApiMonitor } from '@/lib/context/CatalogContext'
 import { cn } from '@/lib/utils/cn'
 
 function getReadableAction(endpoint: string): string {
-  // Remove UUID prefix pattern like /v1/{uuid}/
-  const cleanPath = endpoint.replace(/\/v1\/[a-f0-9-]+\//, '/')
+  if (endpoint.startsWith('storage:')) return 'Read storage file'
+
+  // Remove UUID prefix pattern like /v1/{uuid}/ and query params (pagination, warehouse)
+  const cleanPath = endpoint.split('?')[0].replace(/\/v1\/[a-f0-9-]+\//, '/')
 
   if (cleanPath === '/v1/config') return 'Load config'
   if (cleanPath.match(/^\/namespaces$/)) return 'List namespaces'
   if (cleanPath.match(/^\/namespaces\/[^/]+$/)) return 'Get namespace'
   if (cleanPath.match(/^\/namespaces\/[^/]+\/tables$/)) return 'List tables'
   if (cleanPath.match(/^\/namespaces\/[^/]+\/tables\/[^/]+$/)) return 'Load table'
+  if (cleanPath.match(/^\/namespaces\/[^/]+\/views$/)) return 'List views'
+  if (cleanPath.match(/^\/namespaces\/[^/]+\/views\/[^/]+$/)) return 'Load view'
 
   // Fallback to cleaned path
   return cleanPath
@@ -0,0 +1,177 @@
+import { useEffect, useRef, useState } from 'react'
+import { AlertCircle, Download, Loader2, X } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { useCatalog, type NamespaceNode } from '@/lib/context/CatalogContext'
+import { getClient } from '@/lib/iceberg/client'
+import {
+  DICTIONARY_FORMATS,
+  loadDataDictionary,
+  renderDataDictionary,
+  type DictionaryFormat,
+  type DictionaryProgress,
+} from '@/lib/iceberg/dictionary'
+import { flattenNamespaces } from '@/lib/iceberg/namespaces'
+import { cn } from '@/lib/utils/cn'
+
+interface DataDictionaryDialogProps {
+  // Namespaces to export; a single namespace can optionally include its children
+  namespaces: NamespaceNode[]
+  title: string
+  onClose: () => void
+}
+
+export function DataDictionaryDialog({ namespaces, title, onClose }: DataDictionaryDialogProps) {
+  const { addApiCall } = useCatalog()
+  const [format, setFormat] = useState<DictionaryFormat>('markdown')
+  const [includeChildren, setIncludeChildren] = useState(true)
+  const [progress, setProgress] = useState<DictionaryProgress | null>(null)
+  const [failed, setFailed] = useState<string[]>([])
+  const [error, setError] = useState('')
+  const abortRef = useRef<AbortController | null>(null)
+
+  // Stop loading tables if the dialog is closed mid-export
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  const scopedNamespaces = includeChildren ? flattenNamespaces(namespaces) : namespaces
+  const tables = scopedNamespaces.flatMap((ns) => ns.tables)
+  const hasChildren = namespaces.some((ns) => ns.children.length > 0)
+  const isExporting = progress !== null
+
+  const handleExport = async () => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setError('')
+    setFailed([])
+    setProgress({ current: 0, total: tables.length, message: 'Starting...' })
+
+    try {
+      const entries = await loadDataDictionary(getClient(addApiCall), tables, setProgress, controller.signal)
+      if (controller.signal.aborted) return
+
+      const selected = DICTIONARY_FORMATS.find((f) => f.id === format)!
+      const content = renderDataDictionary(format, title, entries)
+      const url = URL.createObjectURL(new Blob([content], { type: selected.mimeType }))
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `data-dictionary-${title.replace(/[^A-Za-z0-9_.-]+/g, '_')}-${new Date().toISOString().slice(0, 10)}.${selected.extension}`
+      link.click()
+      URL.revokeObjectURL(url)
+
+      setFailed(entries.filter((e) => e.error).map((e) => `${e.namespace}.${e.name}`))
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : 'Failed to export data dictionary')
+      }
+    } finally {
+      // A cancelled export may finish after a new one started; leave the new one's state alone
+      if (abortRef.current === controller) {
+        abortRef.current = null
+        setProgress(null)
+      }
+    }
+  }
+
+  const handleCancel = () => {
+    abortRef.current?.abort()
+    setProgress(null)
+  }
+
+  const percentage = progress && progress.total > 0 ? Math.round((progress.current / progress.total) * 100) : 0
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50" onClick={onClose}>
+      <div className="bg-white rounded-lg max-w-lg w-full max-h-[90vh] overflow-auto" onClick={(e) => e.stopPropagation()}>
+        <div className="sticky top-0 bg-white border-b px-6 py-4 flex items-center justify-between">
+          <h2 className="text-xl font-semibold">Export Data Dictionary</h2>
+          <button onClick={onClose} className="text-muted-foreground hover:text-foreground">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <p className="text-sm text-muted-foreground">
+            Current schema, field docs, partitioning, sort order, properties and headline metrics for every
+            table in <span className="font-medium text-foreground">{title}</span>.
+          </p>
+
+          {hasChildren && (
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={includeChildren}
+                onChange={(e) => setIncludeChildren(e.target.checked)}
+                disabled={isExporting}
+              />
+              Include nested namespaces
+            </label>
+          )}
+
+          <div>
+            <div className="text-sm font-medium mb-2">Format</div>
+            <div className="flex flex-wrap gap-2">
+              {DICTIONARY_FORMATS.map((option) => (
+                <button
+                  key={option.id}
+                  onClick={() => setFormat(option.id)}
+                  disabled={isExporting}
+                  className={cn(
+                    'px-3 py-1 text-sm rounded-md border transition-colors',
+                    format === option.id
+                      ? 'bg-primary text-primary-foreground border-primary'
+                      : 'text-muted-foreground hover:text-foreground'
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {progress && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span className="truncate">{progress.message}</span>
+                <span>{progress.current} of {progress.total}</span>
+              </div>
+              <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                <div className="h-full bg-primary transition-all duration-300" style={{ width: `${percentage}%` }} />
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-start gap-2 p-3 rounded-md bg-red-50 text-red-900 text-sm">
+              <AlertCircle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {failed.length > 0 && (
+            <div className="text-xs text-muted-foreground bg-yellow-50 border border-yellow-200 rounded p-3">
+              <strong>{failed.length} {failed.length === 1 ? 'table' : 'tables'} couldn't be loaded</strong> and are listed
+              with their error in the export: {failed.join(', ')}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">
+              {tables.length} {tables.length === 1 ? 'table' : 'tables'} in {scopedNamespaces.length}{' '}
+              {scopedNamespaces.length === 1 ? 'namespace' : 'namespaces'}
+            </span>
+            {isExporting ? (
+              <Button variant="outline" onClick={handleCancel}>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Cancel
+              </Button>
+            ) : (
+              <Button onClick={handleExport} disabled={tables.length === 0}>
+                <Download className="h-4 w-4 mr-2" />
+                Export
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
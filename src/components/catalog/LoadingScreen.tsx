@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react'
 import { Database, Loader2 } from 'lucide-react'
+import type { LoadProgress } from '@/lib/iceberg/namespaces'
 
 const loadingJokes = [
   "Counting all your icebergs... 🧊",
@@ -31,11 +32,7 @@ const loadingFacts = [
 ]
 
 interface LoadingScreenProps {
-  progress: {
-    current: number
-    total: number
-    message: string
-  }
+  progress: LoadProgress
 }
 
 export function LoadingScreen({ progress }: LoadingScreenProps) {
@@ -89,7 +86,16 @@ export function LoadingScreen({ progress }: LoadingScreenProps) {
             </div>
             <div className="text-xs text-muted-foreground text-center">
               {progress.current} of {progress.total} items loaded
+              {progress.pagesLoaded !== undefined && progress.pagesLoaded > 0 && (
+                <> · {progress.pagesLoaded} {progress.pagesLoaded === 1 ? 'page' : 'pages'} fetched</>
+              )}
             </div>
+            {progress.failed && progress.failed.length > 0 && (
+              <div className="text-xs text-red-600 text-center">
+                Failed so far: {progress.failed.slice(0, 5).join(', ')}
+                {progress.failed.length > 5 && ` and ${progress.failed.length - 5} more`} · you can retry these once loading finishes
+              </div>
+            )}
           </div>
 
           {/* Fun Message */}
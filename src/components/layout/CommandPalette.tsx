@@ -0,0 +1,310 @@
+import { useEffect, useMemo, useRef, useState, type ComponentType } from 'react'
+import { useLocation, useNavigate } from 'react-router-dom'
+import { ArrowRight, Columns3, Copy, Eye, Folder, LogOut, RefreshCw, Search, Table2, Trash2 } from 'lucide-react'
+import { TABLE_TABS } from '@/components/table/tableTabs'
+import { useCatalog } from '@/lib/context/CatalogContext'
+import { getClient } from '@/lib/iceberg/client'
+import { flattenNamespaces } from '@/lib/iceberg/namespaces'
+import { cn } from '@/lib/utils/cn'
+import { fuzzyMatch } from '@/lib/utils/fuzzy'
+import { clearSessionCache, logout } from '@/lib/utils/session'
+
+const MAX_RESULTS = 50
+
+interface PaletteItem {
+  id: string
+  group: 'Actions' | 'Namespaces' | 'Tables' | 'Views'
+  label: string
+  detail?: string
+  icon: ComponentType<{ className?: string }>
+  run: () => void | Promise<void>
+}
+
+function HighlightedLabel({ text, indices }: { text: string; indices: number[] }) {
+  if (indices.length === 0) return <>{text}</>
+  const matched = new Set(indices)
+  return (
+    <>
+      {[...text].map((char, i) =>
+        matched.has(i) ? <span key={i} className="text-primary font-semibold">{char}</span> : <span key={i}>{char}</span>
+      )}
+    </>
+  )
+}
+
+export function CommandPalette() {
+  const navigate = useNavigate()
+  const location = useLocation()
+  const { namespaces, setIsLoaded, addApiCall, clearTableSchemas } = useCatalog()
+  const [isOpen, setIsOpen] = useState(false)
+  const [query, setQuery] = useState('')
+  const [activeIndex, setActiveIndex] = useState(0)
+  const [error, setError] = useState('')
+  const listRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault()
+        setIsOpen((open) => !open)
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('')
+      setActiveIndex(0)
+      setError('')
+    }
+  }, [isOpen])
+
+  // The table currently open, if any, for table-specific actions
+  const tableMatch = location.pathname.match(/^\/table\/([^/]+)\/([^/]+)/)
+  const currentTable = tableMatch ? { namespace: decodeURIComponent(tableMatch[1]), table: decodeURIComponent(tableMatch[2]) } : null
+
+  const items = useMemo<PaletteItem[]>(() => {
+    const close = () => setIsOpen(false)
+    const actions: PaletteItem[] = []
+
+    if (currentTable) {
+      const { namespace, table } = currentTable
+      const identifier = `${namespace}.${table}`
+      TABLE_TABS.forEach((tab) =>
+        actions.push({
+          id: `tab-${tab.id}`,
+          group: 'Actions',
+          label: `Go to ${tab.label} tab`,
+          detail: identifier,
+          icon: ArrowRight,
+          run: () => {
+            navigate(`/table/${namespace}/${table}?tab=${tab.id}`)
+            close()
+          },
+        })
+      )
+      actions.push({
+        id: 'copy-identifier',
+        group: 'Actions',
+        label: 'Copy table identifier',
+        detail: identifier,
+        icon: Copy,
+        run: async () => {
+          await navigator.clipboard.writeText(identifier)
+          close()
+        },
+      })
+      actions.push({
+        id: 'copy-metadata-location',
+        group: 'Actions',
+        label: 'Copy metadata location',
+        detail: identifier,
+        icon: Copy,
+        run: async () => {
+          const result = await getClient(addApiCall).loadTable(namespace.split('.'), table)
+          await navigator.clipboard.writeText(result['metadata-location'] || result.metadata.location)
+          close()
+        },
+      })
+    }
+
+    const refreshCatalog = () => {
+      setIsLoaded(false)
+      // Tables may have been dropped or changed; the search index is rebuilt as they're loaded again
+      clearTableSchemas()
+      // CatalogPage reloads the namespace tree when it sees the catalog isn't loaded
+      const namespace = currentTable?.namespace ?? new URLSearchParams(location.search).get('namespace')
+      navigate(namespace ? `/catalog?namespace=${namespace}` : '/catalog')
+      close()
+    }
+
+    actions.push(
+      {
+        id: 'search-columns',
+        group: 'Actions',
+        label: 'Search columns',
+        icon: Columns3,
+        run: () => {
+          navigate('/search')
+          close()
+        },
+      },
+      {
+        id: 'refresh',
+        group: 'Actions',
+        label: 'Refresh catalog',
+        icon: RefreshCw,
+        run: refreshCatalog,
+      },
+      {
+        id: 'clear-cache',
+        group: 'Actions',
+        label: 'Clear metadata cache',
+        detail: 'Reload this catalog without cached responses',
+        icon: Trash2,
+        run: async () => {
+          await clearSessionCache()
+          refreshCatalog()
+        },
+      },
+      {
+        id: 'logout',
+        group: 'Actions',
+        label: 'Log out',
+        icon: LogOut,
+        run: async () => {
+          close()
+          await logout()
+          clearTableSchemas()
+          navigate('/')
+        },
+      }
+    )
+
+    const catalogItems = flattenNamespaces(namespaces).flatMap((ns): PaletteItem[] => [
+      {
+        id: `ns-${ns.displayName}`,
+        group: 'Namespaces',
+        label: ns.displayName,
+        icon: Folder,
+        run: () => {
+          navigate(`/catalog?namespace=${ns.displayName}`)
+          close()
+        },
+      },
+      ...ns.tables.map((t): PaletteItem => ({
+        id: `table-${ns.displayName}.${t.name}`,
+        group: 'Tables',
+        label: `${ns.displayName}.${t.name}`,
+        icon: Table2,
+        run: () => {
+          navigate(`/table/${ns.displayName}/${t.name}`)
+          close()
+        },
+      })),
+      ...ns.views.map((v): PaletteItem => ({
+        id: `view-${ns.displayName}.${v.name}`,
+        group: 'Views',
+        label: `${ns.displayName}.${v.name}`,
+        icon: Eye,
+        run: () => {
+          navigate(`/view/${ns.displayName}/${v.name}`)
+          close()
+        },
+      })),
+    ])
+
+    return [...actions, ...catalogItems]
+  }, [namespaces, currentTable?.namespace, currentTable?.table, location.search])
+
+  const results = useMemo(() => {
+    const trimmed = query.trim()
+    if (!trimmed) {
+      return items.slice(0, MAX_RESULTS).map((item) => ({ item, indices: [] as number[] }))
+    }
+    return items
+      .map((item) => ({ item, match: fuzzyMatch(trimmed, item.label) }))
+      .filter((r): r is { item: PaletteItem; match: NonNullable<typeof r.match> } => r.match !== null)
+      .sort((a, b) => b.match.score - a.match.score)
+      .slice(0, MAX_RESULTS)
+      .map(({ item, match }) => ({ item, indices: match.indices }))
+  }, [items, query])
+
+  useEffect(() => {
+    setActiveIndex(0)
+  }, [query])
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' })
+  }, [activeIndex])
+
+  if (!isOpen) return null
+
+  const runItem = async (item: PaletteItem) => {
+    setError('')
+    try {
+      await item.run()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed')
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setActiveIndex((i) => Math.min(i + 1, results.length - 1))
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setActiveIndex((i) => Math.max(i - 1, 0))
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault()
+      runItem(results[activeIndex].item)
+    } else if (e.key === 'Escape') {
+      setIsOpen(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-start justify-center p-4 pt-[15vh] z-50" onClick={() => setIsOpen(false)}>
+      <div className="bg-white rounded-lg max-w-xl w-full shadow-xl overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center gap-2 px-4 border-b">
+          <Search className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+          <input
+            autoFocus
+            type="text"
+            placeholder="Jump to a namespace, table or view, or run an action..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            className="flex-1 py-3 text-sm focus:outline-none"
+          />
+          <kbd className="text-xs text-muted-foreground border rounded px-1.5 py-0.5">Esc</kbd>
+        </div>
+
+        {error && <div className="px-4 py-2 text-xs text-red-700 bg-red-50 border-b">{error}</div>}
+
+        <div ref={listRef} className="max-h-[50vh] overflow-auto py-1">
+          {results.length === 0 ? (
+            <div className="text-center py-8 text-sm text-muted-foreground">No matches</div>
+          ) : (
+            results.map(({ item, indices }, index) => {
+              const Icon = item.icon
+              const showGroup = index === 0 || results[index - 1].item.group !== item.group
+              return (
+                <div key={item.id}>
+                  {showGroup && !query.trim() && (
+                    <div className="px-4 pt-2 pb-1 text-xs font-semibold text-muted-foreground">{item.group}</div>
+                  )}
+                  <button
+                    data-index={index}
+                    onClick={() => runItem(item)}
+                    onMouseMove={() => setActiveIndex(index)}
+                    className={cn(
+                      'w-full flex items-center gap-3 px-4 py-2 text-left text-sm',
+                      index === activeIndex ? 'bg-accent' : ''
+                    )}
+                  >
+                    <Icon className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                    <span className="flex-1 min-w-0 truncate">
+                      <HighlightedLabel text={item.label} indices={indices} />
+                    </span>
+                    {item.detail && <span className="text-xs text-muted-foreground truncate max-w-[40%]">{item.detail}</span>}
+                    {query.trim() && <span className="text-xs text-muted-foreground">{item.group.replace(/s$/, '')}</span>}
+                  </button>
+                </div>
+              )
+            })
+          )}
+        </div>
+
+        <div className="px-4 py-2 border-t text-xs text-muted-foreground flex items-center gap-3">
+          <span>↑↓ to navigate</span>
+          <span>↵ to select</span>
+          <span className="ml-auto">⌘K / Ctrl+K to toggle</span>
+        </div>
+      </div>
+    </div>
+  )
+}
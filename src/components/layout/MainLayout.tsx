@@ -1,11 +1,20 @@
+import { useEffect } from 'react'
 import { Outlet } from 'react-router-dom'
 import { Sidebar } from './Sidebar'
 import { ApiMonitor } from '@/components/ApiMonitor'
+import { CommandPalette } from './CommandPalette'
+import { pruneCache } from '@/lib/iceberg/cache'
 
 export function MainLayout() {
+  // Drop cached catalog responses too old to ever be served again
+  useEffect(() => {
+    pruneCache()
+  }, [])
+
   return (
     <div className="flex h-screen bg-background">
       <ApiMonitor />
+      <CommandPalette />
       <Sidebar />
       <main className="flex-1 overflow-hidden">
         <Outlet />
@@ -1,22 +1,103 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useNavigate, useLocation } from 'react-router-dom'
-import { Folder, Search, RefreshCw, LogOut, ChevronRight } from 'lucide-react'
+import { Folder, FolderOpen, Search, RefreshCw, LogOut, ChevronRight, Columns3 } from 'lucide-react'
 import { Button } from '@/components/ui/Button'
 import { Input } from '@/components/ui/Input'
-import { useCatalog } from '@/lib/context/CatalogContext'
+import { useCatalog, type NamespaceNode } from '@/lib/context/CatalogContext'
+import { getNamespaceLabel } from '@/lib/iceberg/namespaces'
 import { cn } from '@/lib/utils/cn'
+import { logout } from '@/lib/utils/session'
+
+interface NamespaceTreeItemProps {
+  node: NamespaceNode
+  depth: number
+  currentNamespace: string | null
+  expanded: Set<string>
+  onToggle: (displayName: string) => void
+  onSelect: (displayName: string) => void
+}
+
+function NamespaceTreeItem({ node, depth, currentNamespace, expanded, onToggle, onSelect }: NamespaceTreeItemProps) {
+  const isSelected = currentNamespace === node.displayName
+  const isExpanded = expanded.has(node.displayName)
+  const hasChildren = node.children.length > 0
+  const FolderIcon = isExpanded && hasChildren ? FolderOpen : Folder
+
+  return (
+    <div>
+      <div
+        className={cn(
+          'w-full flex items-center gap-1 pr-2 py-1.5 rounded text-sm transition-colors',
+          isSelected
+            ? 'bg-primary/10 text-primary font-medium'
+            : 'hover:bg-accent text-foreground'
+        )}
+        style={{ paddingLeft: `${depth * 12 + 4}px` }}
+      >
+        <button
+          onClick={() => hasChildren && onToggle(node.displayName)}
+          className={cn('h-4 w-4 flex items-center justify-center flex-shrink-0', !hasChildren && 'invisible')}
+          aria-label={isExpanded ? 'Collapse namespace' : 'Expand namespace'}
+        >
+          <ChevronRight className={cn('h-3 w-3 text-muted-foreground transition-transform', isExpanded && 'rotate-90')} />
+        </button>
+        <button
+          onClick={() => onSelect(node.displayName)}
+          className="flex-1 min-w-0 flex items-center gap-2 text-left"
+          title={node.displayName}
+        >
+          <FolderIcon className={cn('h-4 w-4 flex-shrink-0', isSelected ? 'text-primary' : 'text-muted-foreground')} />
+          <span className="truncate">{getNamespaceLabel(node)}</span>
+        </button>
+      </div>
+      {hasChildren && isExpanded && (
+        <div className="space-y-0.5 mt-0.5">
+          {node.children.map((child) => (
+            <NamespaceTreeItem
+              key={child.displayName}
+              node={child}
+              depth={depth + 1}
+              currentNamespace={currentNamespace}
+              expanded={expanded}
+              onToggle={onToggle}
+              onSelect={onSelect}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Keep nodes that match the query or have a matching descendant
+ */
+function filterNamespaceTree(nodes: NamespaceNode[], query: string): NamespaceNode[] {
+  return nodes.flatMap((node) => {
+    const children = filterNamespaceTree(node.children, query)
+    if (node.displayName.toLowerCase().includes(query) || children.length > 0) {
+      return [{ ...node, children }]
+    }
+    return []
+  })
+}
+
+function collectDisplayNames(nodes: NamespaceNode[]): string[] {
+  return nodes.flatMap((node) => [node.displayName, ...collectDisplayNames(node.children)])
+}
 
 export function Sidebar() {
   const navigate = useNavigate()
   const location = useLocation()
-  const { namespaces, setIsLoaded } = useCatalog()
+  const { namespaces, setIsLoaded, clearTableSchemas } = useCatalog()
   const [searchQuery, setSearchQuery] = useState('')
   const [isRefreshing, setIsRefreshing] = useState(false)
+  const [expandedNamespaces, setExpandedNamespaces] = useState<Set<string>>(new Set())
 
   // Get current namespace from URL
   const getCurrentNamespace = () => {
-    // Check if we're on a table page
-    const tableMatch = location.pathname.match(/^\/table\/([^/]+)\//)
+    // Check if we're on a table or view page
+    const tableMatch = location.pathname.match(/^\/(?:table|view)\/([^/]+)\//)
     if (tableMatch) {
       return tableMatch[1]
     }
@@ -27,11 +108,38 @@ export function Sidebar() {
 
   const currentNamespace = getCurrentNamespace()
 
+  // Reveal the selected namespace by expanding all of its ancestors
+  useEffect(() => {
+    if (!currentNamespace) return
+    const parts = currentNamespace.split('.')
+    setExpandedNamespaces((prev) => {
+      const next = new Set(prev)
+      for (let i = 1; i < parts.length; i++) {
+        next.add(parts.slice(0, i).join('.'))
+      }
+      return next
+    })
+  }, [currentNamespace])
+
+  const toggleNamespace = (displayName: string) => {
+    setExpandedNamespaces((prev) => {
+      const next = new Set(prev)
+      if (next.has(displayName)) {
+        next.delete(displayName)
+      } else {
+        next.add(displayName)
+      }
+      return next
+    })
+  }
+
   const handleRefresh = () => {
     setIsRefreshing(true)
     setIsLoaded(false)
-    // If on table page, navigate to catalog with namespace
-    if (location.pathname.startsWith('/table/')) {
+    // Tables may have been dropped or changed; the search index is rebuilt as they're loaded again
+    clearTableSchemas()
+    // If on table or view page, navigate to catalog with namespace
+    if (location.pathname.startsWith('/table/') || location.pathname.startsWith('/view/')) {
       const namespace = getCurrentNamespace()
       navigate(namespace ? `/catalog?namespace=${namespace}` : '/catalog')
     }
@@ -44,28 +152,15 @@ export function Sidebar() {
   }
 
   const handleLogout = async () => {
-    const sessionId = sessionStorage.getItem('iceberg-session-id')
-
-    try {
-      if (sessionId) {
-        await fetch('/api/auth/logout', {
-          method: 'POST',
-          headers: {
-            'X-Session-ID': sessionId,
-          },
-        })
-      }
-    } catch (error) {
-      console.error('Logout error:', error)
-    } finally {
-      sessionStorage.clear()
-      navigate('/')
-    }
+    await logout()
+    clearTableSchemas()
+    navigate('/')
   }
 
-  const filteredNamespaces = namespaces.filter((ns) =>
-    ns.displayName.toLowerCase().includes(searchQuery.toLowerCase())
-  )
+  const query = searchQuery.trim().toLowerCase()
+  const filteredNamespaces = query ? filterNamespaceTree(namespaces, query) : namespaces
+  // While searching, show every match without requiring manual expansion
+  const visibleExpanded = query ? new Set(collectDisplayNames(filteredNamespaces)) : expandedNamespaces
 
   return (
     <div className="w-64 border-r bg-white flex flex-col">
@@ -103,6 +198,16 @@ export function Sidebar() {
             className="pl-7 h-8 text-sm"
           />
         </div>
+        <button
+          onClick={() => navigate(query ? `/search?q=${encodeURIComponent(searchQuery.trim())}` : '/search')}
+          className={cn(
+            'mt-2 w-full flex items-center gap-2 px-2 py-1.5 rounded text-xs transition-colors',
+            location.pathname === '/search' ? 'bg-primary/10 text-primary font-medium' : 'text-muted-foreground hover:bg-accent hover:text-foreground'
+          )}
+        >
+          <Columns3 className="h-3.5 w-3.5 flex-shrink-0" />
+          <span className="truncate">{query ? `Search columns for "${searchQuery.trim()}"` : 'Search columns'}</span>
+        </button>
       </div>
 
       {/* Namespaces List */}
@@ -115,25 +220,17 @@ export function Sidebar() {
             </div>
           ) : (
             <div className="space-y-0.5">
-              {filteredNamespaces.map((namespace) => {
-                const isSelected = currentNamespace === namespace.displayName
-                return (
-                  <button
-                    key={namespace.displayName}
-                    onClick={() => handleNamespaceClick(namespace.displayName)}
-                    className={cn(
-                      'w-full flex items-center gap-2 px-2 py-1.5 rounded text-sm transition-colors',
-                      isSelected
-                        ? 'bg-primary/10 text-primary font-medium'
-                        : 'hover:bg-accent text-foreground'
-                    )}
-                  >
-                    <Folder className={cn('h-4 w-4 flex-shrink-0', isSelected ? 'text-primary' : 'text-muted-foreground')} />
-                    <span className="truncate">{namespace.displayName}</span>
-                    <ChevronRight className="h-3 w-3 ml-auto flex-shrink-0 text-muted-foreground" />
-                  </button>
-                )
-              })}
+              {filteredNamespaces.map((namespace) => (
+                <NamespaceTreeItem
+                  key={namespace.displayName}
+                  node={namespace}
+                  depth={0}
+                  currentNamespace={currentNamespace}
+                  expanded={visibleExpanded}
+                  onToggle={toggleNamespace}
+                  onSelect={handleNamespaceClick}
+                />
+              ))}
             </div>
           )}
         </div>
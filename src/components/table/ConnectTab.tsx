@@ -2,6 +2,7 @@ import { useState } from 'react'
 import { Copy, Check } from 'lucide-react'
 import { Button } from '@/components/ui/Button'
 import { cn } from '@/lib/utils/cn'
+import type { AuthType } from '@/types/iceberg'
 import {
   getDuckDBExample,
   getTrinoExample,
@@ -15,7 +16,7 @@ interface ConnectTabProps {
   table: string
   catalogUrl: string
   warehouse?: string
-  authType: 'bearer' | 'oauth2' | 'sigv4'
+  authType: AuthType
   awsRegion?: string
   metadataLocation?: string
 }
@@ -36,7 +37,7 @@ function getConnectionCode(
   table: string,
   catalogUrl: string,
   warehouse?: string,
-  authType: 'bearer' | 'oauth2' | 'sigv4' = 'bearer',
+  authType: AuthType = 'bearer',
   awsRegion?: string,
   metadataLocation?: string
 ): { title: string; code: string; language: string } {
@@ -0,0 +1,289 @@
+import { Fragment, useEffect, useState } from 'react'
+import { ChevronRight, FileText, Loader2, AlertCircle } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { getClient } from '@/lib/iceberg/client'
+import { formatBytes, formatNumber } from '@/lib/iceberg/metrics'
+import {
+  decodeBound,
+  formatPartition,
+  getDataFileContentLabel,
+  getEntryStatusLabel,
+  getManifestContentLabel,
+  getManifestFileCounts,
+  readManifest,
+  readManifestList,
+} from '@/lib/iceberg/manifests'
+import { findFieldById } from '@/lib/iceberg/schema'
+import { getStorageCredentialsKey, hasStorageCredentials, resolveStorageConfig } from '@/lib/iceberg/storage'
+import { useCatalog } from '@/lib/context/CatalogContext'
+import { cn } from '@/lib/utils/cn'
+import type { DataFile, LoadTableResult, ManifestEntry, ManifestFile, Schema } from '@/types/iceberg'
+
+interface FilesTabProps {
+  tableData: LoadTableResult
+}
+
+type ManifestState =
+  | { status: 'loading' }
+  | { status: 'loaded'; entries: ManifestEntry[] }
+  | { status: 'error'; error: string }
+
+function fileName(path: string): string {
+  return path.substring(path.lastIndexOf('/') + 1)
+}
+
+function ColumnBounds({ file, schema }: { file: DataFile; schema: Schema | undefined }) {
+  const ids = new Set([...(file.lower_bounds?.keys() || []), ...(file.upper_bounds?.keys() || [])])
+  if (ids.size === 0) {
+    return <div className="text-xs text-muted-foreground">No column bounds recorded</div>
+  }
+
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-left text-muted-foreground">
+          <th className="py-1 pr-4 font-medium">Column</th>
+          <th className="py-1 pr-4 font-medium">Lower</th>
+          <th className="py-1 pr-4 font-medium">Upper</th>
+          <th className="py-1 pr-4 font-medium">Values</th>
+          <th className="py-1 pr-4 font-medium">Nulls</th>
+        </tr>
+      </thead>
+      <tbody>
+        {[...ids].sort((a, b) => a - b).map((id) => {
+          const resolved = schema ? findFieldById(schema, id) : null
+          const type = resolved && typeof resolved.field.type === 'string' ? resolved.field.type : 'binary'
+          const lower = file.lower_bounds?.get(id)
+          const upper = file.upper_bounds?.get(id)
+          return (
+            <tr key={id} className="border-t">
+              <td className="py-1 pr-4 font-medium">{resolved?.path || `field ${id}`}</td>
+              <td className="py-1 pr-4 font-mono break-all">{lower ? decodeBound(lower, type) : '—'}</td>
+              <td className="py-1 pr-4 font-mono break-all">{upper ? decodeBound(upper, type) : '—'}</td>
+              <td className="py-1 pr-4">{file.value_counts?.get(id) ?? '—'}</td>
+              <td className="py-1 pr-4">{file.null_value_counts?.get(id) ?? '—'}</td>
+            </tr>
+          )
+        })}
+      </tbody>
+    </table>
+  )
+}
+
+export function FilesTab({ tableData }: FilesTabProps) {
+  const { addApiCall } = useCatalog()
+  const metadata = tableData.metadata
+  const snapshots = [...(metadata.snapshots || [])].sort((a, b) => b['timestamp-ms'] - a['timestamp-ms'])
+  const [snapshotId, setSnapshotId] = useState<number | undefined>(metadata['current-snapshot-id'] ?? snapshots[0]?.['snapshot-id'])
+  const [manifests, setManifests] = useState<ManifestFile[] | null>(null)
+  const [manifestStates, setManifestStates] = useState<Map<string, ManifestState>>(new Map())
+  const [expandedFile, setExpandedFile] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const snapshot = snapshots.find((s) => s['snapshot-id'] === snapshotId)
+  const schema =
+    metadata.schemas.find((s) => s['schema-id'] === snapshot?.['schema-id']) ||
+    metadata.schemas.find((s) => s['schema-id'] === metadata['current-schema-id'])
+
+  const credentialsKey = getStorageCredentialsKey(tableData)
+
+  // Reload when credentials arrive too: a table served from the cache has none until it's revalidated
+  useEffect(() => {
+    if (snapshot) {
+      loadManifestList()
+    }
+  }, [snapshotId, credentialsKey])
+
+  const loadManifestList = async () => {
+    if (!snapshot) return
+
+    setIsLoading(true)
+    setError('')
+    setManifests(null)
+    setManifestStates(new Map())
+
+    try {
+      const client = getClient(addApiCall)
+      const uri = snapshot['manifest-list']
+      const result = await readManifestList(client, uri, resolveStorageConfig(tableData, uri))
+      setManifests(result)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load manifest list')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const toggleManifest = async (manifest: ManifestFile) => {
+    const path = manifest.manifest_path
+    if (manifestStates.has(path)) {
+      setManifestStates((prev) => {
+        const next = new Map(prev)
+        next.delete(path)
+        return next
+      })
+      return
+    }
+
+    setManifestStates((prev) => new Map(prev).set(path, { status: 'loading' }))
+    try {
+      const client = getClient(addApiCall)
+      const entries = await readManifest(client, path, resolveStorageConfig(tableData, path))
+      setManifestStates((prev) => new Map(prev).set(path, { status: 'loaded', entries }))
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to load manifest'
+      setManifestStates((prev) => new Map(prev).set(path, { status: 'error', error: message }))
+    }
+  }
+
+  if (snapshots.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No snapshots available
+      </div>
+    )
+  }
+
+  const credentialsVended = hasStorageCredentials(resolveStorageConfig(tableData, metadata.location))
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="text-sm text-muted-foreground font-mono break-all">
+          {snapshot?.['manifest-list']}
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <label className="text-sm text-muted-foreground">Snapshot:</label>
+          <select
+            value={snapshotId}
+            onChange={(e) => setSnapshotId(Number(e.target.value))}
+            className="border rounded px-3 py-1.5 text-sm"
+          >
+            {snapshots.map((s) => (
+              <option key={s['snapshot-id']} value={s['snapshot-id']}>
+                {s['snapshot-id']}
+                {s['snapshot-id'] === metadata['current-snapshot-id'] ? ' (Current)' : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {!credentialsVended && (
+        <div className="text-xs text-muted-foreground bg-blue-50 border border-blue-200 rounded p-3">
+          <strong>Note:</strong> The catalog did not vend storage credentials for this table. Reading manifests
+          requires the catalog to return credentials (<code>s3.access-key-id</code>, <code>gcs.oauth2.token</code> or{' '}
+          <code>adls.sas-token.*</code>) in the loadTable config.
+        </div>
+      )}
+
+      {isLoading && (
+        <div className="flex items-center gap-2 text-muted-foreground py-8 justify-center">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Reading manifest list...
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-start gap-2 p-3 rounded-md bg-red-50 text-red-700 text-sm">
+          <AlertCircle className="h-5 w-5 flex-shrink-0 mt-0.5" />
+          <div className="flex-1 break-all">{error}</div>
+          <Button variant="outline" size="sm" onClick={loadManifestList}>Retry</Button>
+        </div>
+      )}
+
+      {manifests && (
+        <div className="space-y-2">
+          <div className="text-sm text-muted-foreground">
+            {manifests.length} {manifests.length === 1 ? 'manifest' : 'manifests'}
+          </div>
+          {manifests.map((manifest) => {
+            const state = manifestStates.get(manifest.manifest_path)
+            const counts = getManifestFileCounts(manifest)
+            return (
+              <div key={manifest.manifest_path} className="border rounded-lg">
+                <button
+                  onClick={() => toggleManifest(manifest)}
+                  className="w-full flex items-center gap-3 p-3 text-left hover:bg-accent/50 transition-colors"
+                >
+                  <ChevronRight className={cn('h-4 w-4 flex-shrink-0 transition-transform', state && 'rotate-90')} />
+                  <FileText className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                  <div className="flex-1 min-w-0">
+                    <div className="font-mono text-sm truncate" title={manifest.manifest_path}>
+                      {fileName(manifest.manifest_path)}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {getManifestContentLabel(manifest)} · spec {manifest.partition_spec_id} · added by {manifest.added_snapshot_id}
+                    </div>
+                  </div>
+                  <div className="text-xs text-muted-foreground text-right flex-shrink-0">
+                    <div>{counts.added} added · {counts.existing} existing · {counts.deleted} deleted</div>
+                    <div>{formatBytes(manifest.manifest_length)}</div>
+                  </div>
+                </button>
+
+                {state?.status === 'loading' && (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground px-10 pb-3">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Reading manifest...
+                  </div>
+                )}
+                {state?.status === 'error' && (
+                  <div className="text-sm text-red-600 px-10 pb-3 break-all">{state.error}</div>
+                )}
+                {state?.status === 'loaded' && (
+                  <div className="border-t overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead className="border-b">
+                        <tr className="text-left">
+                          <th className="py-2 px-4 font-medium">File</th>
+                          <th className="py-2 px-4 font-medium">Content</th>
+                          <th className="py-2 px-4 font-medium">Status</th>
+                          <th className="py-2 px-4 font-medium">Partition</th>
+                          <th className="py-2 px-4 font-medium">Records</th>
+                          <th className="py-2 px-4 font-medium">Size</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {state.entries.map((entry) => {
+                          const file = entry.data_file
+                          const isExpanded = expandedFile === file.file_path
+                          return (
+                            <Fragment key={file.file_path}>
+                              <tr
+                                onClick={() => setExpandedFile(isExpanded ? null : file.file_path)}
+                                className="border-b last:border-b-0 cursor-pointer hover:bg-accent/30"
+                              >
+                                <td className="py-2 px-4 font-mono text-xs" title={file.file_path}>
+                                  {fileName(file.file_path)}
+                                </td>
+                                <td className="py-2 px-4 text-xs">{getDataFileContentLabel(file)}</td>
+                                <td className="py-2 px-4 text-xs capitalize">{getEntryStatusLabel(entry)}</td>
+                                <td className="py-2 px-4 font-mono text-xs">{formatPartition(file.partition)}</td>
+                                <td className="py-2 px-4">{formatNumber(file.record_count)}</td>
+                                <td className="py-2 px-4">{formatBytes(file.file_size_in_bytes)}</td>
+                              </tr>
+                              {isExpanded && (
+                                <tr className="border-b bg-gray-50">
+                                  <td colSpan={6} className="py-3 px-4 space-y-2">
+                                    <div className="font-mono text-xs break-all text-muted-foreground">{file.file_path}</div>
+                                    <ColumnBounds file={file} schema={schema} />
+                                  </td>
+                                </tr>
+                              )}
+                            </Fragment>
+                          )
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,227 @@
+import { useEffect, useState } from 'react'
+import { AlertCircle, FileText, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { SchemaChangeSummary } from '@/components/table/SchemaFieldsTable'
+import { getClient } from '@/lib/iceberg/client'
+import { formatDate, formatRelativeTime } from '@/lib/iceberg/metrics'
+import { diffTableMetadata, getMetadataLog, hasMetadataChanges, normalizeTableMetadata, type MetadataVersion, type ValueChange } from '@/lib/iceberg/metadata'
+import { getStorageCredentialsKey, hasStorageCredentials, resolveStorageConfig } from '@/lib/iceberg/storage'
+import { useCatalog } from '@/lib/context/CatalogContext'
+import { cn } from '@/lib/utils/cn'
+import type { LoadTableResult, Snapshot } from '@/types/iceberg'
+
+interface MetadataHistoryTabProps {
+  tableData: LoadTableResult
+  selected: MetadataVersion | null
+  onSelect: (version: MetadataVersion | null) => void
+}
+
+function fileName(path: string): string {
+  return path.substring(path.lastIndexOf('/') + 1)
+}
+
+function ChangeTable({ changes }: { changes: ValueChange[] }) {
+  return (
+    <table className="w-full text-sm">
+      <thead className="border-b">
+        <tr className="text-left">
+          <th className="py-2 px-4 font-medium">Key</th>
+          <th className="py-2 px-4 font-medium">Selected version</th>
+          <th className="py-2 px-4 font-medium">Current</th>
+        </tr>
+      </thead>
+      <tbody>
+        {changes.map((change) => (
+          <tr key={change.key} className="border-b last:border-b-0">
+            <td className="py-2 px-4 font-medium">{change.key}</td>
+            <td className="py-2 px-4 font-mono text-xs break-all text-red-700">{change.from ?? '—'}</td>
+            <td className="py-2 px-4 font-mono text-xs break-all text-green-700">{change.to ?? '—'}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+function SnapshotList({ title, snapshots }: { title: string; snapshots: Snapshot[] }) {
+  return (
+    <div>
+      <div className="text-sm font-medium mb-1">{title}</div>
+      <div className="space-y-1">
+        {snapshots.map((snapshot) => (
+          <div key={snapshot['snapshot-id']} className="text-xs text-muted-foreground">
+            <span className="font-mono text-foreground">{snapshot['snapshot-id']}</span>
+            {' · '}
+            {formatDate(snapshot['timestamp-ms'])}
+            {snapshot.summary?.operation && ` · ${snapshot.summary.operation}`}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function MetadataDiffView({ version, current }: { version: MetadataVersion; current: LoadTableResult }) {
+  const diff = diffTableMetadata(version.metadata, current.metadata)
+
+  if (!hasMetadataChanges(diff)) {
+    return <p className="text-sm text-muted-foreground">No differences from the current metadata</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      {diff.fields.length > 0 && <ChangeTable changes={diff.fields} />}
+
+      {diff.schemaChanges && (
+        <div>
+          <div className="text-sm font-medium mb-1">Current schema</div>
+          <SchemaChangeSummary changes={diff.schemaChanges} />
+        </div>
+      )}
+
+      {diff.addedSchemaIds.length > 0 && (
+        <div className="text-sm">
+          <span className="font-medium">Schemas added since:</span>{' '}
+          <span className="text-muted-foreground">{diff.addedSchemaIds.join(', ')}</span>
+        </div>
+      )}
+
+      {diff.addedSpecs.length > 0 && (
+        <div className="text-sm">
+          <span className="font-medium">Partition specs added since:</span>{' '}
+          <span className="text-muted-foreground">
+            {diff.addedSpecs
+              .map((spec) => `${spec['spec-id']} (${spec.fields.map((f) => `${f.transform}(${f.name})`).join(', ') || 'unpartitioned'})`)
+              .join(', ')}
+          </span>
+        </div>
+      )}
+
+      {diff.addedSnapshots.length > 0 && (
+        <SnapshotList title={`${diff.addedSnapshots.length} snapshots committed since`} snapshots={diff.addedSnapshots} />
+      )}
+
+      {diff.removedSnapshots.length > 0 && (
+        <SnapshotList title={`${diff.removedSnapshots.length} snapshots expired since`} snapshots={diff.removedSnapshots} />
+      )}
+
+      {diff.properties.length > 0 && (
+        <div>
+          <div className="text-sm font-medium mb-1">Properties</div>
+          <ChangeTable changes={diff.properties} />
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function MetadataHistoryTab({ tableData, selected, onSelect }: MetadataHistoryTabProps) {
+  const { addApiCall } = useCatalog()
+  const [loadingFile, setLoadingFile] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const [failedVersion, setFailedVersion] = useState<{ file: string; timestampMs: number } | null>(null)
+  const entries = getMetadataLog(tableData)
+  const credentialsKey = getStorageCredentialsKey(tableData)
+
+  // A read that failed before the catalog vended credentials is retried once they arrive
+  useEffect(() => {
+    if (failedVersion) {
+      selectVersion(failedVersion.file, failedVersion.timestampMs, false)
+    }
+  }, [credentialsKey])
+
+  const selectVersion = async (file: string, timestampMs: number, isCurrent: boolean) => {
+    if (isCurrent) {
+      onSelect(null)
+      return
+    }
+
+    setLoadingFile(file)
+    setError('')
+    setFailedVersion(null)
+    try {
+      const client = getClient(addApiCall)
+      const metadata = normalizeTableMetadata(await client.fetchMetadataFile(file, resolveStorageConfig(tableData, file)))
+      onSelect({ file, timestampMs, metadata })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load metadata file')
+      setFailedVersion({ file, timestampMs })
+    } finally {
+      setLoadingFile(null)
+    }
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No metadata history recorded
+      </div>
+    )
+  }
+
+  const credentialsVended = hasStorageCredentials(resolveStorageConfig(tableData, tableData.metadata.location))
+
+  return (
+    <div className="space-y-4">
+      {!credentialsVended && (
+        <div className="text-xs text-muted-foreground bg-blue-50 border border-blue-200 rounded p-3">
+          <strong>Note:</strong> The catalog did not vend storage credentials for this table, so previous
+          metadata files may not be readable.
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-start gap-2 p-3 rounded-md bg-red-50 text-red-700 text-sm">
+          <AlertCircle className="h-5 w-5 flex-shrink-0 mt-0.5" />
+          <div className="flex-1 break-all">{error}</div>
+        </div>
+      )}
+
+      {selected && (
+        <div className="border rounded-lg p-4 space-y-3">
+          <div>
+            <div className="font-medium">Changes from {fileName(selected.file)} to current</div>
+            <div className="text-xs text-muted-foreground">{formatDate(selected.timestampMs)}</div>
+          </div>
+          <MetadataDiffView version={selected} current={tableData} />
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {entries.map((entry) => {
+          const isViewing = selected ? selected.file === entry.file : entry.isCurrent
+          return (
+            <div
+              key={entry.file}
+              className={cn('flex items-center gap-3 border rounded-lg p-3', isViewing && 'border-primary bg-primary/5')}
+            >
+              <FileText className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+              <div className="flex-1 min-w-0">
+                <div className="font-mono text-sm truncate" title={entry.file}>
+                  {fileName(entry.file)}
+                  {entry.isCurrent && (
+                    <span className="ml-2 text-xs bg-primary text-primary-foreground px-2 py-0.5 rounded font-sans">
+                      Current
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {formatDate(entry.timestampMs)} · {formatRelativeTime(entry.timestampMs)}
+                </div>
+              </div>
+              <Button
+                variant={isViewing ? 'default' : 'outline'}
+                size="sm"
+                disabled={isViewing || loadingFile !== null}
+                onClick={() => selectVersion(entry.file, entry.timestampMs, entry.isCurrent)}
+              >
+                {loadingFile === entry.file && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {isViewing ? 'Viewing' : 'View'}
+              </Button>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,123 @@
+import { ArrowRight } from 'lucide-react'
+import { diffPartitionSpecs, getPartitionSpecs, type PartitionSpecChange } from '@/lib/iceberg/partitions'
+import { describeTransform } from '@/lib/iceberg/transforms'
+import { cn } from '@/lib/utils/cn'
+import type { TableMetadata } from '@/types/iceberg'
+
+interface PartitionsTabProps {
+  metadata: TableMetadata
+}
+
+function SpecChanges({ changes }: { changes: PartitionSpecChange[] }) {
+  if (changes.length === 0) {
+    return <div className="text-xs text-muted-foreground">No changes to partition fields</div>
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {changes.map((change) => (
+        <span
+          key={`${change.type}-${change.sourceName}`}
+          className={cn(
+            'inline-flex items-center gap-1 text-xs px-2 py-0.5 rounded',
+            change.type === 'added' && 'bg-green-100 text-green-800',
+            change.type === 'removed' && 'bg-red-100 text-red-800',
+            change.type === 'changed' && 'bg-yellow-100 text-yellow-800'
+          )}
+        >
+          <span className="font-medium">{change.sourceName}</span>
+          {change.type === 'added' && <span>added as {change.to}</span>}
+          {change.type === 'removed' && <span>{change.from} removed</span>}
+          {change.type === 'changed' && (
+            <>
+              <span>{change.from}</span>
+              <ArrowRight className="h-3 w-3" />
+              <span>{change.to}</span>
+            </>
+          )}
+        </span>
+      ))}
+    </div>
+  )
+}
+
+export function PartitionsTab({ metadata }: PartitionsTabProps) {
+  const specs = getPartitionSpecs(metadata)
+
+  if (specs.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No partition specs defined
+      </div>
+    )
+  }
+
+  // Newest first, each compared with the spec before it
+  return (
+    <div className="space-y-4">
+      {specs.map((spec, index) => ({ spec, previous: index > 0 ? specs[index - 1] : null }))
+        .reverse()
+        .map(({ spec, previous }) => (
+          <div
+            key={spec['spec-id']}
+            className={cn('border rounded-lg p-4 space-y-3', spec['spec-id'] === metadata['default-spec-id'] && 'border-primary')}
+          >
+            <div className="flex items-center gap-2">
+              <div className="font-medium">Spec {spec['spec-id']}</div>
+              {spec['spec-id'] === metadata['default-spec-id'] && (
+                <span className="text-xs bg-primary text-primary-foreground px-2 py-0.5 rounded">Default</span>
+              )}
+            </div>
+
+            {previous && (
+              <div className="space-y-1">
+                <div className="text-xs text-muted-foreground">Changes from Spec {previous['spec-id']}</div>
+                <SpecChanges changes={diffPartitionSpecs(metadata, previous, spec)} />
+              </div>
+            )}
+
+            {spec.fields.length === 0 ? (
+              <div className="text-sm text-muted-foreground">Unpartitioned</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="border-b">
+                    <tr className="text-left">
+                      <th className="py-2 px-4 font-medium">Partition Field</th>
+                      <th className="py-2 px-4 font-medium">Source Column</th>
+                      <th className="py-2 px-4 font-medium">Transform</th>
+                      <th className="py-2 px-4 font-medium">Meaning</th>
+                      <th className="py-2 px-4 font-medium">Field ID</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {spec.fields.map((field) => (
+                      <tr key={field['field-id']} className="border-b last:border-b-0">
+                        <td className="py-2 px-4 font-medium">{field.name}</td>
+                        <td className="py-2 px-4">
+                          {field.source ? (
+                            <>
+                              <span className="font-mono text-xs">{field.source.name}</span>
+                              <span className="text-xs text-muted-foreground ml-2">{field.source.type}</span>
+                              {field.source.dropped && (
+                                <span className="text-xs text-red-600 ml-2">dropped</span>
+                              )}
+                            </>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">Unknown (source-id {field['source-id']})</span>
+                          )}
+                        </td>
+                        <td className="py-2 px-4 font-mono text-xs">{field.transform}</td>
+                        <td className="py-2 px-4 text-xs text-muted-foreground">{describeTransform(field.transform)}</td>
+                        <td className="py-2 px-4 text-xs">{field['field-id']}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        ))}
+    </div>
+  )
+}
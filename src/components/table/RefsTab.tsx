@@ -0,0 +1,95 @@
+import { GitBranch, Tag } from 'lucide-react'
+import { formatDate, formatDuration } from '@/lib/iceberg/metrics'
+import { compareRefToMain, getRefs, MAIN_BRANCH, type NamedRef } from '@/lib/iceberg/refs'
+import { cn } from '@/lib/utils/cn'
+import type { TableMetadata } from '@/types/iceberg'
+
+interface RefsTabProps {
+  metadata: TableMetadata
+}
+
+export function RefBadge({ refName, type }: { refName: string; type: NamedRef['type'] }) {
+  const Icon = type === 'branch' ? GitBranch : Tag
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1 text-xs px-2 py-0.5 rounded font-medium',
+        type === 'branch' ? 'bg-blue-100 text-blue-800' : 'bg-amber-100 text-amber-800'
+      )}
+    >
+      <Icon className="h-3 w-3" />
+      {refName}
+    </span>
+  )
+}
+
+export function RefsTab({ metadata }: RefsTabProps) {
+  const refs = getRefs(metadata)
+
+  if (refs.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No branches or tags
+      </div>
+    )
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead className="border-b">
+          <tr className="text-left">
+            <th className="py-2 px-4 font-medium">Ref</th>
+            <th className="py-2 px-4 font-medium">Snapshot</th>
+            <th className="py-2 px-4 font-medium">Max Ref Age</th>
+            <th className="py-2 px-4 font-medium">Max Snapshot Age</th>
+            <th className="py-2 px-4 font-medium">Min Snapshots</th>
+            <th className="py-2 px-4 font-medium">vs {MAIN_BRANCH}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {refs.map((ref) => {
+            const snapshot = metadata.snapshots?.find((s) => s['snapshot-id'] === ref['snapshot-id'])
+            const divergence = ref.name === MAIN_BRANCH ? null : compareRefToMain(metadata, ref)
+            return (
+              <tr key={ref.name} className="border-b last:border-b-0">
+                <td className="py-2 px-4">
+                  <RefBadge refName={ref.name} type={ref.type} />
+                </td>
+                <td className="py-2 px-4">
+                  <div className="font-mono text-xs">{ref['snapshot-id']}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {snapshot ? formatDate(snapshot['timestamp-ms']) : 'Snapshot expired'}
+                  </div>
+                </td>
+                <td className="py-2 px-4 text-xs">
+                  {ref['max-ref-age-ms'] != null ? formatDuration(ref['max-ref-age-ms']) : '—'}
+                </td>
+                <td className="py-2 px-4 text-xs">
+                  {ref['max-snapshot-age-ms'] != null ? formatDuration(ref['max-snapshot-age-ms']) : '—'}
+                </td>
+                <td className="py-2 px-4 text-xs">{ref['min-snapshots-to-keep'] ?? '—'}</td>
+                <td className="py-2 px-4 text-xs">
+                  {ref.name === MAIN_BRANCH ? (
+                    <span className="text-muted-foreground">—</span>
+                  ) : divergence ? (
+                    <span>
+                      <span className={cn(divergence.ahead > 0 && 'text-green-700 font-medium')}>{divergence.ahead} ahead</span>
+                      {' · '}
+                      <span className={cn(divergence.behind > 0 && 'text-orange-700 font-medium')}>{divergence.behind} behind</span>
+                    </span>
+                  ) : (
+                    <span className="text-muted-foreground">No {MAIN_BRANCH} branch</span>
+                  )}
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+      <p className="text-xs text-muted-foreground mt-3">
+        Retention settings left blank fall back to the table's <code>history.expire.*</code> properties.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+import { useState } from 'react'
+import { Check, Copy, Download } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { exportSchema, SCHEMA_EXPORT_FORMATS, type SchemaExportFormat } from '@/lib/iceberg/schemaExport'
+import { cn } from '@/lib/utils/cn'
+import type { PartitionSpec, Schema, SortOrder } from '@/types/iceberg'
+
+interface SchemaExportPanelProps {
+  namespace: string
+  table: string
+  schema: Schema
+  spec?: PartitionSpec
+  sortOrder?: SortOrder
+  formatVersion?: number
+}
+
+export function SchemaExportPanel({ namespace, table, schema, spec, sortOrder, formatVersion }: SchemaExportPanelProps) {
+  const [format, setFormat] = useState<SchemaExportFormat>('spark')
+  const [copied, setCopied] = useState(false)
+
+  const selected = SCHEMA_EXPORT_FORMATS.find((f) => f.id === format)!
+  const code = exportSchema(format, { namespace, table, schema, spec, sortOrder, formatVersion })
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(code)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([code], { type: 'text/plain' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `${table}-schema-${schema['schema-id']}-${format}.${selected.extension}`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {SCHEMA_EXPORT_FORMATS.map((option) => (
+          <button
+            key={option.id}
+            onClick={() => setFormat(option.id)}
+            className={cn(
+              'px-3 py-1 text-sm rounded-md border transition-colors',
+              format === option.id
+                ? 'bg-primary text-primary-foreground border-primary'
+                : 'text-muted-foreground hover:text-foreground'
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="border rounded-lg bg-gray-50 overflow-hidden">
+        <div className="flex items-center justify-between px-4 py-2 border-b bg-white">
+          <span className="text-sm font-medium">
+            {selected.label} · Schema {schema['schema-id']}
+            {(spec?.fields.length || sortOrder?.fields.length) ? ' with partitioning and sort order' : ''}
+          </span>
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="sm" onClick={handleDownload} className="h-8">
+              <Download className="h-4 w-4 mr-2" />
+              Download
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleCopy} className="h-8">
+              {copied ? (
+                <>
+                  <Check className="h-4 w-4 mr-2" />
+                  Copied!
+                </>
+              ) : (
+                <>
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy
+                </>
+              )}
+            </Button>
+          </div>
+        </div>
+        <pre className="p-4 overflow-x-auto text-sm max-h-[32rem]">
+          <code className={`language-${selected.language}`}>{code}</code>
+        </pre>
+      </div>
+
+      {format === 'duckdb' && (spec?.fields.length || sortOrder?.fields.length) ? (
+        <div className="text-xs text-muted-foreground bg-blue-50 border border-blue-200 rounded p-3">
+          <strong>Note:</strong> DuckDB's <code>CREATE TABLE</code> can't declare Iceberg partitioning or sort order, so they're included as comments.
+        </div>
+      ) : null}
+    </div>
+  )
+}
@@ -0,0 +1,309 @@
+import { useEffect, useMemo, useState } from 'react'
+import { ChevronRight, Search } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { cn } from '@/lib/utils/cn'
+import { flattenSchema, formatFieldType, formatTypeSummary, type SchemaChanges, type SchemaNode } from '@/lib/iceberg/schema'
+import type { Schema } from '@/types/iceberg'
+
+interface SchemaChangeSummaryProps {
+  changes: SchemaChanges
+}
+
+export function SchemaChangeSummary({ changes }: SchemaChangeSummaryProps) {
+  return (
+    <div className="flex items-center gap-4 text-sm">
+      {changes.added.length > 0 && (
+        <div className="flex items-center gap-1">
+          <span className="w-3 h-3 rounded-full bg-green-500"></span>
+          <span className="text-muted-foreground">{changes.added.length} added</span>
+        </div>
+      )}
+      {changes.removed.length > 0 && (
+        <div className="flex items-center gap-1">
+          <span className="w-3 h-3 rounded-full bg-red-500"></span>
+          <span className="text-muted-foreground">{changes.removed.length} removed</span>
+        </div>
+      )}
+      {changes.modified.length > 0 && (
+        <div className="flex items-center gap-1">
+          <span className="w-3 h-3 rounded-full bg-yellow-500"></span>
+          <span className="text-muted-foreground">{changes.modified.length} modified</span>
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * List the changes that can't be seen in the displayed schema's field table:
+ * removed fields and the old paths of renamed fields
+ */
+export function SchemaChangeDetails({ changes }: SchemaChangeSummaryProps) {
+  const renamed = changes.modified.filter((m) => m.renamed)
+  if (changes.removed.length === 0 && renamed.length === 0) return null
+
+  return (
+    <div className="space-y-1 text-xs">
+      {changes.removed.map((node) => (
+        <div key={`removed-${node.id}`} className="flex items-center gap-2">
+          <span className="text-red-700 font-medium">Removed</span>
+          <span className="font-mono">{node.path}</span>
+          <span className="text-muted-foreground">{formatTypeSummary(node.type)} · id {node.id}</span>
+        </div>
+      ))}
+      {renamed.map(({ field, oldField }) => (
+        <div key={`renamed-${field.id}`} className="flex items-center gap-2">
+          <span className="text-yellow-700 font-medium">Renamed</span>
+          <span className="font-mono">{oldField.path}</span>
+          <span className="text-muted-foreground">→</span>
+          <span className="font-mono">{field.path}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function ChangeTag({ label }: { label: string }) {
+  return <span className="text-xs bg-yellow-50 text-yellow-800 border border-yellow-200 px-1.5 py-0.5 rounded">{label}</span>
+}
+
+interface SchemaFieldsTableProps {
+  schema: Schema
+  changes?: SchemaChanges | null
+  // Field to reveal, scroll to and highlight, e.g. when arriving from column search
+  highlightFieldId?: number | null
+}
+
+/**
+ * Pick the rows to show: with a search query, every match plus its ancestors;
+ * otherwise every node whose ancestors are all expanded
+ */
+function getVisibleNodes(nodes: SchemaNode[], expanded: Set<string>, query: string): SchemaNode[] {
+  if (query) {
+    const byPath = new Map(nodes.map((node) => [node.path, node]))
+    const visible = new Set<string>()
+    for (const node of nodes) {
+      if (!node.path.toLowerCase().includes(query)) continue
+      let current: SchemaNode | undefined = node
+      while (current && !visible.has(current.path)) {
+        visible.add(current.path)
+        current = current.parentPath ? byPath.get(current.parentPath) : undefined
+      }
+    }
+    return nodes.filter((node) => visible.has(node.path))
+  }
+
+  const visible: SchemaNode[] = []
+  let hiddenBelowDepth = Infinity
+  for (const node of nodes) {
+    if (node.depth > hiddenBelowDepth) continue
+    hiddenBelowDepth = Infinity
+    visible.push(node)
+    if (node.hasChildren && !expanded.has(node.path)) {
+      hiddenBelowDepth = node.depth
+    }
+  }
+  return visible
+}
+
+export function SchemaFieldsTable({ schema, changes, highlightFieldId }: SchemaFieldsTableProps) {
+  const nodes = useMemo(() => flattenSchema(schema), [schema])
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+  const [searchQuery, setSearchQuery] = useState('')
+  const highlighted = highlightFieldId != null ? nodes.find((node) => node.id === highlightFieldId) : undefined
+
+  // Expand the highlighted field's ancestors, then bring it into view
+  useEffect(() => {
+    if (!highlighted) return
+    setExpanded((prev) => {
+      const next = new Set(prev)
+      for (let path = highlighted.parentPath; path; path = nodes.find((n) => n.path === path)?.parentPath) {
+        next.add(path)
+      }
+      return next
+    })
+    requestAnimationFrame(() => {
+      document.getElementById(`schema-field-${highlighted.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    })
+  }, [highlighted])
+
+  const query = searchQuery.trim().toLowerCase()
+  const visibleNodes = useMemo(() => getVisibleNodes(nodes, expanded, query), [nodes, expanded, query])
+  const hasNested = nodes.some((node) => node.hasChildren)
+
+  // Children of an added field are new too, even though only the field itself is reported
+  const addedPaths = useMemo(() => {
+    const paths = new Set<string>()
+    if (!changes) return paths
+    const addedIds = new Set(changes.added.map((node) => node.id))
+    for (const node of nodes) {
+      if ((node.id >= 0 && addedIds.has(node.id)) || (node.parentPath && paths.has(node.parentPath))) {
+        paths.add(node.path)
+      }
+    }
+    return paths
+  }, [nodes, changes])
+  const modifications = useMemo(
+    () => new Map((changes?.modified || []).map((m) => [m.field.id, m])),
+    [changes]
+  )
+
+  const toggle = (path: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev)
+      if (next.has(path)) {
+        next.delete(path)
+      } else {
+        next.add(path)
+      }
+      return next
+    })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <input
+            type="text"
+            placeholder={hasNested ? 'Search column paths, e.g. payload.items.element.sku' : 'Search columns'}
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="w-full pl-9 pr-3 py-1.5 text-sm border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+        </div>
+        {hasNested && (
+          <>
+            <Button variant="outline" size="sm" onClick={() => setExpanded(new Set(nodes.filter((n) => n.hasChildren).map((n) => n.path)))}>
+              Expand all
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setExpanded(new Set())}>
+              Collapse all
+            </Button>
+          </>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="border-b">
+            <tr className="text-left">
+              <th className="py-2 px-4 font-medium">ID</th>
+              <th className="py-2 px-4 font-medium">Name</th>
+              <th className="py-2 px-4 font-medium">Type</th>
+              <th className="py-2 px-4 font-medium">Required</th>
+              <th className="py-2 px-4 font-medium">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleNodes.map((node) => {
+              const isAdded = addedPaths.has(node.path)
+              const modification = node.id >= 0 ? modifications.get(node.id) : undefined
+              const isExpanded = !!query || expanded.has(node.path)
+
+              return (
+                <tr
+                  key={node.path}
+                  id={node.id >= 0 ? `schema-field-${node.id}` : undefined}
+                  className={cn(
+                    'border-b last:border-b-0',
+                    node === highlighted && 'ring-2 ring-inset ring-primary/40 bg-primary/5',
+                    isAdded && 'bg-green-50',
+                    modification && 'bg-yellow-50'
+                  )}
+                >
+                  <td className="py-2 px-4 text-muted-foreground">{node.id >= 0 ? node.id : '—'}</td>
+                  <td className="py-2 px-4">
+                    <div className="flex items-start gap-1" style={{ paddingLeft: node.depth * 20 }}>
+                      {node.hasChildren ? (
+                        <button
+                          onClick={() => toggle(node.path)}
+                          disabled={!!query}
+                          className="mt-0.5 text-muted-foreground hover:text-foreground"
+                        >
+                          <ChevronRight className={cn('h-4 w-4 transition-transform', isExpanded && 'rotate-90')} />
+                        </button>
+                      ) : (
+                        <span className="w-4 flex-shrink-0" />
+                      )}
+                      <div>
+                        <div className={cn(node.kind === 'field' ? 'font-medium' : 'italic text-muted-foreground')}>
+                          {node.name}
+                          {modification?.renamed && (
+                            <span className="ml-2 text-xs font-normal text-red-600 line-through">{modification.oldField.name}</span>
+                          )}
+                        </div>
+                        {modification?.docChanged && modification.oldField.doc && (
+                          <div className="text-xs text-red-600 line-through">{modification.oldField.doc}</div>
+                        )}
+                        {node.doc && (
+                          <div className={cn('text-xs', modification?.docChanged ? 'text-green-600' : 'text-muted-foreground')}>{node.doc}</div>
+                        )}
+                      </div>
+                    </div>
+                  </td>
+                  <td className="py-2 px-4 font-mono text-xs">
+                    {modification && modification.typeChanged ? (
+                      <div className="space-y-1">
+                        <div className="text-red-600 line-through">
+                          {formatFieldType(modification.oldType)}
+                        </div>
+                        <div className="text-green-600">
+                          {formatFieldType(node.type)}
+                          {modification.promoted && <span className="ml-2 font-sans text-muted-foreground">promoted</span>}
+                        </div>
+                      </div>
+                    ) : (
+                      formatTypeSummary(node.type)
+                    )}
+                  </td>
+                  <td className="py-2 px-4">
+                    {modification && modification.requiredChanged ? (
+                      <div className="space-y-1">
+                        <div className="text-red-600 line-through text-xs">
+                          {modification.oldRequired ? 'Yes' : 'No'}
+                        </div>
+                        <div className="text-green-600 text-xs">
+                          {node.required ? 'Yes' : 'No'}
+                        </div>
+                      </div>
+                    ) : node.required ? (
+                      <span className="text-green-600">Yes</span>
+                    ) : (
+                      <span className="text-muted-foreground">No</span>
+                    )}
+                  </td>
+                  <td className="py-2 px-4">
+                    {isAdded && (
+                      <span className="inline-flex items-center gap-1 text-xs bg-green-100 text-green-700 px-2 py-1 rounded">
+                        <span className="w-2 h-2 rounded-full bg-green-500"></span>
+                        Added
+                      </span>
+                    )}
+                    {modification && (
+                      <div className="flex flex-wrap items-center gap-1">
+                        <span className="inline-flex items-center gap-1 text-xs bg-yellow-100 text-yellow-700 px-2 py-1 rounded">
+                          <span className="w-2 h-2 rounded-full bg-yellow-500"></span>
+                          Modified
+                        </span>
+                        {modification.renamed && <ChangeTag label="Renamed" />}
+                        {modification.typeChanged && <ChangeTag label={modification.promoted ? 'Type promoted' : 'Type changed'} />}
+                        {modification.requiredChanged && <ChangeTag label={node.required ? 'Now required' : 'Now optional'} />}
+                        {modification.docChanged && <ChangeTag label="Doc" />}
+                        {modification.reordered && <ChangeTag label="Moved" />}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+        {query && visibleNodes.length === 0 && (
+          <div className="text-center py-6 text-sm text-muted-foreground">No columns match "{searchQuery}"</div>
+        )}
+      </div>
+    </div>
+  )
+}
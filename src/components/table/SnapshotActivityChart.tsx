@@ -0,0 +1,165 @@
+import { useMemo, useState } from 'react'
+import { ZoomOut } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { StackedBarChart, type StackedBar } from '@/components/ui/StackedBarChart'
+import {
+  ACTIVITY_GRANULARITIES,
+  ACTIVITY_METRICS,
+  ACTIVITY_RANGES,
+  bucketSnapshotActivity,
+  getActivityWindow,
+  getDefaultGranularity,
+  type ActivityGranularity,
+  type ActivityMetric,
+  type ActivityRange,
+  type ActivityWindow,
+} from '@/lib/iceberg/activity'
+import { formatBytes, formatNumber } from '@/lib/iceberg/metrics'
+import { getOperationColor } from '@/lib/iceberg/snapshots'
+import { cn } from '@/lib/utils/cn'
+import type { Snapshot } from '@/types/iceberg'
+
+interface SnapshotActivityChartProps {
+  snapshots: Snapshot[]
+  defaultRange?: ActivityRange
+}
+
+function formatBucketLabel(timestampMs: number, granularity: ActivityGranularity): string {
+  const date = new Date(timestampMs)
+  if (granularity === 'hour') {
+    return date.toLocaleString('en-US', { month: 'numeric', day: 'numeric', hour: 'numeric' })
+  }
+  return date.toLocaleDateString('en-US', { month: 'numeric', day: 'numeric' })
+}
+
+function formatBucketRange(start: number, end: number, granularity: ActivityGranularity): string {
+  const options: Intl.DateTimeFormatOptions = granularity === 'hour'
+    ? { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' }
+    : { weekday: 'short', month: 'short', day: 'numeric' }
+  const startLabel = new Date(start).toLocaleString('en-US', options)
+  // Day and week buckets end at the next midnight, so show the last day they include
+  const endLabel = new Date(granularity === 'hour' ? end : end - 1).toLocaleString('en-US', options)
+  return startLabel === endLabel ? startLabel : `${startLabel} – ${endLabel}`
+}
+
+function PillGroup<T extends string>({
+  options,
+  value,
+  onChange,
+}: {
+  options: Array<{ id: T; label: string }>
+  value: T | null
+  onChange: (id: T) => void
+}) {
+  return (
+    <div className="flex rounded-md border">
+      {options.map((option) => (
+        <button
+          key={option.id}
+          onClick={() => onChange(option.id)}
+          className={cn(
+            'px-2.5 py-1 text-xs transition-colors',
+            value === option.id ? 'bg-primary text-primary-foreground' : 'text-muted-foreground hover:text-foreground'
+          )}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+export function SnapshotActivityChart({ snapshots, defaultRange = '7d' }: SnapshotActivityChartProps) {
+  const [range, setRange] = useState<ActivityRange>(defaultRange)
+  const [granularity, setGranularity] = useState<ActivityGranularity>(getDefaultGranularity(defaultRange))
+  const [metric, setMetric] = useState<ActivityMetric>('commits')
+  const [zoom, setZoom] = useState<ActivityWindow | null>(null)
+
+  const activityWindow = zoom ?? getActivityWindow(snapshots, range)
+  const activity = useMemo(
+    () => (activityWindow ? bucketSnapshotActivity(snapshots, activityWindow, granularity, metric) : null),
+    [snapshots, activityWindow?.start, activityWindow?.end, granularity, metric]
+  )
+
+  if (!activity) return null
+
+  const bars: StackedBar[] = activity.buckets.map((bucket) => ({
+    key: String(bucket.start),
+    label: formatBucketLabel(bucket.start, activity.granularity),
+    values: bucket.values,
+    total: bucket.total,
+  }))
+  const series = activity.series.map((operation) => ({ id: operation, color: getOperationColor(operation) }))
+  const formatValue = metric === 'added-files-size' ? formatBytes : formatNumber
+  const metricLabel = ACTIVITY_METRICS.find((m) => m.id === metric)?.label
+
+  const selectRange = (next: ActivityRange) => {
+    setRange(next)
+    setGranularity(getDefaultGranularity(next))
+    setZoom(null)
+  }
+
+  const zoomTo = (next: ActivityWindow) => {
+    // Drop to a finer granularity so the zoomed window has more than a handful of bars
+    const days = (next.end - next.start) / (24 * 60 * 60 * 1000)
+    setGranularity(days <= 2 ? 'hour' : days <= 60 ? 'day' : 'week')
+    setZoom(next)
+  }
+
+  return (
+    <div className="border rounded-lg p-6 bg-white space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="text-sm font-medium">
+          Snapshot Activity
+          {activity.granularity !== granularity && (
+            <span className="ml-2 text-xs font-normal text-muted-foreground">
+              (shown {ACTIVITY_GRANULARITIES.find((g) => g.id === activity.granularity)?.label.toLowerCase()} for this range)
+            </span>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as ActivityMetric)}
+            className="border rounded px-2 py-1 text-xs"
+          >
+            {ACTIVITY_METRICS.map((m) => (
+              <option key={m.id} value={m.id}>{m.label}</option>
+            ))}
+          </select>
+          <PillGroup options={ACTIVITY_GRANULARITIES} value={granularity} onChange={setGranularity} />
+          <PillGroup options={ACTIVITY_RANGES} value={zoom ? null : range} onChange={selectRange} />
+          {zoom && (
+            <Button variant="outline" size="sm" onClick={() => setZoom(null)}>
+              <ZoomOut className="h-4 w-4 mr-1" />
+              Reset zoom
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <StackedBarChart
+        bars={bars}
+        series={series}
+        formatValue={formatValue}
+        tooltipTitle={(bar) => {
+          const bucket = activity.buckets.find((b) => String(b.start) === bar.key)!
+          return formatBucketRange(bucket.start, bucket.end, activity.granularity)
+        }}
+        onSelectRange={(fromIndex, toIndex) =>
+          zoomTo({ start: activity.buckets[fromIndex].start, end: activity.buckets[toIndex].end - 1 })
+        }
+      />
+
+      <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+        {series.map((s) => (
+          <div key={s.id} className="flex items-center gap-1">
+            <span className="w-3 h-3 rounded-full" style={{ background: s.color }}></span>
+            <span className="capitalize">{s.id}</span>
+          </div>
+        ))}
+        <span className="ml-auto">{metricLabel} by operation · drag across bars to zoom</span>
+      </div>
+    </div>
+  )
+}
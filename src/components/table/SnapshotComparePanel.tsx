@@ -0,0 +1,269 @@
+import { useEffect, useState } from 'react'
+import { AlertCircle, ArrowRight, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { SchemaChangeSummary } from '@/components/table/SchemaFieldsTable'
+import { getClient } from '@/lib/iceberg/client'
+import { formatPartition, getDataFileContentLabel } from '@/lib/iceberg/manifests'
+import { formatBytes, formatDate, formatNumber } from '@/lib/iceberg/metrics'
+import { compareSnapshots, diffSnapshotFiles, type SnapshotFileDiff } from '@/lib/iceberg/snapshots'
+import { hasStorageCredentials, resolveStorageConfig } from '@/lib/iceberg/storage'
+import { useCatalog } from '@/lib/context/CatalogContext'
+import { cn } from '@/lib/utils/cn'
+import type { DataFile, LoadTableResult } from '@/types/iceberg'
+
+interface SnapshotComparePanelProps {
+  tableData: LoadTableResult
+  fromId?: number
+  toId?: number
+  onChange: (fromId: number, toId: number) => void
+}
+
+function formatDelta(key: string, delta: number | null): string {
+  if (delta === null) return '—'
+  const sign = delta > 0 ? '+' : delta < 0 ? '−' : ''
+  const magnitude = Math.abs(delta)
+  return `${sign}${key === 'total-files-size' ? formatBytes(magnitude) : formatNumber(magnitude)}`
+}
+
+function formatTotal(key: string, value: number | null): string {
+  if (value === null) return '—'
+  return key === 'total-files-size' ? formatBytes(value) : formatNumber(value)
+}
+
+function FileList({ title, files, className }: { title: string; files: DataFile[]; className: string }) {
+  return (
+    <div>
+      <div className={cn('text-sm font-medium mb-1', className)}>
+        {title} ({files.length})
+      </div>
+      {files.length === 0 ? (
+        <div className="text-xs text-muted-foreground">None</div>
+      ) : (
+        <div className="overflow-x-auto border rounded">
+          <table className="w-full text-xs">
+            <thead className="border-b">
+              <tr className="text-left">
+                <th className="py-1.5 px-3 font-medium">File</th>
+                <th className="py-1.5 px-3 font-medium">Content</th>
+                <th className="py-1.5 px-3 font-medium">Partition</th>
+                <th className="py-1.5 px-3 font-medium">Records</th>
+                <th className="py-1.5 px-3 font-medium">Size</th>
+              </tr>
+            </thead>
+            <tbody>
+              {files.map((file) => (
+                <tr key={file.file_path} className="border-b last:border-b-0">
+                  <td className="py-1.5 px-3 font-mono break-all" title={file.file_path}>
+                    {file.file_path.substring(file.file_path.lastIndexOf('/') + 1)}
+                  </td>
+                  <td className="py-1.5 px-3">{getDataFileContentLabel(file)}</td>
+                  <td className="py-1.5 px-3 font-mono">{formatPartition(file.partition)}</td>
+                  <td className="py-1.5 px-3">{formatNumber(file.record_count)}</td>
+                  <td className="py-1.5 px-3">{formatBytes(file.file_size_in_bytes)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function SnapshotComparePanel({ tableData, fromId, toId, onChange }: SnapshotComparePanelProps) {
+  const { addApiCall } = useCatalog()
+  const metadata = tableData.metadata
+  const snapshots = [...(metadata.snapshots || [])].sort((a, b) => b['timestamp-ms'] - a['timestamp-ms'])
+  const [fileDiff, setFileDiff] = useState<SnapshotFileDiff | null>(null)
+  const [isLoadingFiles, setIsLoadingFiles] = useState(false)
+  const [filesError, setFilesError] = useState('')
+
+  const from = snapshots.find((s) => s['snapshot-id'] === fromId)
+  const to = snapshots.find((s) => s['snapshot-id'] === toId)
+
+  useEffect(() => {
+    setFileDiff(null)
+    setFilesError('')
+  }, [fromId, toId])
+
+  if (snapshots.length < 2) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        At least two snapshots are needed to compare
+      </div>
+    )
+  }
+
+  const loadFileDiff = async () => {
+    if (!from || !to) return
+
+    setIsLoadingFiles(true)
+    setFilesError('')
+    try {
+      const client = getClient(addApiCall)
+      setFileDiff(await diffSnapshotFiles(client, tableData, from, to))
+    } catch (err) {
+      setFilesError(err instanceof Error ? err.message : 'Failed to read manifests')
+    } finally {
+      setIsLoadingFiles(false)
+    }
+  }
+
+  const comparison = from && to ? compareSnapshots(metadata, from, to) : null
+  const credentialsVended = hasStorageCredentials(resolveStorageConfig(tableData, metadata.location))
+
+  const snapshotSelect = (value: number | undefined, onSelect: (id: number) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onSelect(Number(e.target.value))}
+      className="border rounded px-3 py-1.5 text-sm"
+    >
+      {snapshots.map((s) => (
+        <option key={s['snapshot-id']} value={s['snapshot-id']}>
+          {s['snapshot-id']} · {formatDate(s['timestamp-ms'])}
+          {s.summary?.operation ? ` · ${s.summary.operation}` : ''}
+        </option>
+      ))}
+    </select>
+  )
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        {snapshotSelect(fromId, (id) => onChange(id, toId ?? id))}
+        <ArrowRight className="h-4 w-4 text-muted-foreground" />
+        {snapshotSelect(toId, (id) => onChange(fromId ?? id, id))}
+      </div>
+
+      {!comparison ? (
+        <div className="text-sm text-muted-foreground">Select two snapshots to compare</div>
+      ) : fromId === toId ? (
+        <div className="text-sm text-muted-foreground">Select two different snapshots to compare</div>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="border-b">
+                <tr className="text-left">
+                  <th className="py-2 px-4 font-medium">Metric</th>
+                  <th className="py-2 px-4 font-medium">From</th>
+                  <th className="py-2 px-4 font-medium">To</th>
+                  <th className="py-2 px-4 font-medium">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.totals.map((total) => (
+                  <tr key={total.key} className="border-b last:border-b-0">
+                    <td className="py-2 px-4 font-medium">{total.label}</td>
+                    <td className="py-2 px-4">{formatTotal(total.key, total.from)}</td>
+                    <td className="py-2 px-4">{formatTotal(total.key, total.to)}</td>
+                    <td
+                      className={cn(
+                        'py-2 px-4 font-medium',
+                        total.delta !== null && total.delta > 0 && 'text-green-700',
+                        total.delta !== null && total.delta < 0 && 'text-red-700'
+                      )}
+                    >
+                      {formatDelta(total.key, total.delta)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="border rounded-lg p-4 space-y-2">
+              <div className="text-sm font-medium">Schema</div>
+              {comparison.fromSchemaId === comparison.toSchemaId ? (
+                <p className="text-sm text-muted-foreground">
+                  Both snapshots use schema {comparison.toSchemaId ?? 'unknown'}
+                </p>
+              ) : (
+                <>
+                  <p className="text-xs text-muted-foreground">
+                    Schema {comparison.fromSchemaId ?? 'unknown'} → Schema {comparison.toSchemaId ?? 'unknown'}
+                  </p>
+                  {comparison.schemaChanges ? (
+                    <SchemaChangeSummary changes={comparison.schemaChanges} />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No field changes</p>
+                  )}
+                </>
+              )}
+            </div>
+
+            <div className="border rounded-lg p-4 space-y-2">
+              <div className="text-sm font-medium">Partitions Touched</div>
+              {comparison.relation === 'diverged' ? (
+                <p className="text-sm text-muted-foreground">
+                  These snapshots are on different lines of history, so there are no commits between them to inspect.
+                </p>
+              ) : (
+                <>
+                  <p className="text-xs text-muted-foreground">
+                    {comparison.between.length} commit{comparison.between.length !== 1 ? 's' : ''} between,
+                    reporting {formatNumber(comparison.changedPartitionCount)} partition change
+                    {comparison.changedPartitionCount !== 1 ? 's' : ''}
+                  </p>
+                  {comparison.partitions.length > 0 ? (
+                    <div className="flex flex-wrap gap-1">
+                      {comparison.partitions.map((partition) => (
+                        <span key={partition} className="font-mono text-xs bg-gray-100 px-2 py-0.5 rounded">
+                          {partition}
+                        </span>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      Snapshot summaries don't list partitions; compare files below for exact partitions.
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="border rounded-lg p-4 space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <div className="text-sm font-medium">Files</div>
+                <div className="text-xs text-muted-foreground">
+                  Reads both manifest lists and the manifests that differ between them
+                </div>
+              </div>
+              <Button variant="outline" size="sm" onClick={loadFileDiff} disabled={isLoadingFiles || !credentialsVended}>
+                {isLoadingFiles && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Compare files
+              </Button>
+            </div>
+
+            {!credentialsVended && (
+              <div className="text-xs text-muted-foreground bg-blue-50 border border-blue-200 rounded p-3">
+                <strong>Note:</strong> The catalog did not vend storage credentials for this table, so manifests can't be read.
+              </div>
+            )}
+
+            {filesError && (
+              <div className="flex items-start gap-2 p-3 rounded-md bg-red-50 text-red-700 text-sm">
+                <AlertCircle className="h-5 w-5 flex-shrink-0 mt-0.5" />
+                <div className="flex-1 break-all">{filesError}</div>
+              </div>
+            )}
+
+            {fileDiff && (
+              <div className="space-y-4">
+                <div className="text-xs text-muted-foreground">
+                  {fileDiff.manifestsRead} manifest{fileDiff.manifestsRead !== 1 ? 's' : ''} read ·{' '}
+                  {new Set([...fileDiff.added, ...fileDiff.removed].map((f) => formatPartition(f.partition))).size} partitions touched
+                </div>
+                <FileList title="Added" files={fileDiff.added} className="text-green-700" />
+                <FileList title="Removed" files={fileDiff.removed} className="text-red-700" />
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
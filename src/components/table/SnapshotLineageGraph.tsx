@@ -0,0 +1,119 @@
+import { useMemo } from 'react'
+import { ReactFlow, Node, Edge, Background, Controls, MarkerType } from '@xyflow/react'
+import '@xyflow/react/dist/style.css'
+import { RefBadge } from '@/components/table/RefsTab'
+import { buildSnapshotLineage } from '@/lib/iceberg/lineage'
+import { formatDate } from '@/lib/iceberg/metrics'
+import { getOperationColor, OPERATION_COLORS } from '@/lib/iceberg/snapshots'
+import type { TableMetadata } from '@/types/iceberg'
+
+interface SnapshotLineageGraphProps {
+  metadata: TableMetadata
+  onSelectSnapshot: (snapshotId: number) => void
+}
+
+const COLUMN_SPACING = 230
+const LANE_SPACING = 130
+
+export function SnapshotLineageGraph({ metadata, onSelectSnapshot }: SnapshotLineageGraphProps) {
+  const { nodes, edges } = useMemo(() => {
+    const lineage = buildSnapshotLineage(metadata)
+
+    const flowNodes: Node[] = lineage.nodes.map(({ snapshot, column, lane, refs, orphaned }) => {
+      const operation = snapshot.summary?.operation
+      const color = getOperationColor(operation)
+      const isCurrent = snapshot['snapshot-id'] === metadata['current-snapshot-id']
+
+      return {
+        id: String(snapshot['snapshot-id']),
+        data: {
+          label: (
+            <div className="text-left space-y-1">
+              <div className="flex items-center gap-1.5">
+                <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ background: color }} />
+                <span className="font-semibold text-xs capitalize">{operation || 'unknown'}</span>
+                {isCurrent && <span className="text-[10px] text-primary font-medium ml-auto">Current</span>}
+                {orphaned && <span className="text-[10px] text-gray-500 ml-auto">Orphaned</span>}
+              </div>
+              <div className="font-mono text-[10px] text-gray-600 truncate">{snapshot['snapshot-id']}</div>
+              <div className="text-[10px] text-gray-500">{formatDate(snapshot['timestamp-ms'])}</div>
+              {refs.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {refs.map((ref) => (
+                    <RefBadge key={ref.name} refName={ref.name} type={ref.type} />
+                  ))}
+                </div>
+              )}
+            </div>
+          ),
+        },
+        position: { x: column * COLUMN_SPACING, y: lane * LANE_SPACING },
+        style: {
+          background: 'white',
+          border: `2px ${orphaned ? 'dashed' : 'solid'} ${color}`,
+          borderRadius: '8px',
+          padding: '8px 10px',
+          width: 190,
+          opacity: orphaned ? 0.6 : 1,
+          boxShadow: isCurrent ? '0 0 0 3px rgba(91, 75, 138, 0.3)' : '0 2px 4px rgba(0,0,0,0.05)',
+          cursor: 'pointer',
+        },
+      }
+    })
+
+    const flowEdges: Edge[] = lineage.edges.map(({ parentId, childId }) => ({
+      id: `${parentId}-${childId}`,
+      source: String(parentId),
+      target: String(childId),
+      type: 'smoothstep',
+      style: { stroke: '#9ca3af', strokeWidth: 1.5 },
+      markerEnd: {
+        type: MarkerType.ArrowClosed,
+        color: '#9ca3af',
+      },
+    }))
+
+    return { nodes: flowNodes, edges: flowEdges }
+  }, [metadata])
+
+  if (nodes.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        No snapshots available
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="h-[480px] border rounded-lg">
+        <ReactFlow
+          nodes={nodes}
+          edges={edges}
+          onNodeClick={(_event, node) => onSelectSnapshot(Number(node.id))}
+          nodesDraggable={false}
+          nodesConnectable={false}
+          fitView
+          minZoom={0.1}
+          attributionPosition="bottom-left"
+        >
+          <Background />
+          <Controls showInteractive={false} />
+        </ReactFlow>
+      </div>
+      <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+        {Object.entries(OPERATION_COLORS).map(([operation, color]) => (
+          <div key={operation} className="flex items-center gap-1">
+            <span className="w-3 h-3 rounded-full" style={{ background: color }}></span>
+            <span className="capitalize">{operation}</span>
+          </div>
+        ))}
+        <div className="flex items-center gap-1">
+          <span className="w-3 h-3 rounded border-2 border-dashed border-gray-400"></span>
+          <span>Orphaned (not reachable from any branch or tag)</span>
+        </div>
+        <span className="ml-auto">Click a snapshot to see its details</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,100 @@
+import { AlertCircle } from 'lucide-react'
+import { formatSortOrder, getSortOrders, isWrittenUnsorted } from '@/lib/iceberg/sortOrders'
+import { describeTransform } from '@/lib/iceberg/transforms'
+import { cn } from '@/lib/utils/cn'
+import type { TableMetadata } from '@/types/iceberg'
+
+interface SortOrderTabProps {
+  metadata: TableMetadata
+}
+
+export function SortOrderTab({ metadata }: SortOrderTabProps) {
+  const orders = getSortOrders(metadata)
+  const unsorted = isWrittenUnsorted(metadata)
+  const distributionMode = metadata.properties?.['write.distribution-mode']
+
+  return (
+    <div className="space-y-4">
+      {unsorted && (
+        <div className="flex items-start gap-2 p-3 rounded-md bg-yellow-50 border border-yellow-200 text-yellow-900">
+          <AlertCircle className="h-5 w-5 flex-shrink-0 mt-0.5" />
+          <div>
+            <div className="font-semibold text-sm">Table is written unsorted</div>
+            <div className="text-sm mt-1">
+              The default sort order has no fields, so engines don't cluster rows within data files.
+              Column bounds will overlap across files, which limits file skipping on filtered queries.
+            </div>
+          </div>
+        </div>
+      )}
+
+      {distributionMode && (
+        <div className="text-sm">
+          <span className="text-muted-foreground">Write distribution mode:</span>{' '}
+          <span className="font-mono">{distributionMode}</span>
+        </div>
+      )}
+
+      {orders.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          No sort orders defined
+        </div>
+      ) : (
+        orders.map((order) => {
+          const isDefault = order['order-id'] === metadata['default-sort-order-id']
+          return (
+            <div key={order['order-id']} className={cn('border rounded-lg p-4 space-y-3', isDefault && 'border-primary')}>
+              <div className="flex items-center gap-2">
+                <div className="font-medium">Sort Order {order['order-id']}</div>
+                {isDefault && (
+                  <span className="text-xs bg-primary text-primary-foreground px-2 py-0.5 rounded">Default</span>
+                )}
+              </div>
+              <div className="font-mono text-xs text-muted-foreground break-all">{formatSortOrder(order)}</div>
+
+              {order.fields.length > 0 && (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="border-b">
+                      <tr className="text-left">
+                        <th className="py-2 px-4 font-medium">Column</th>
+                        <th className="py-2 px-4 font-medium">Transform</th>
+                        <th className="py-2 px-4 font-medium">Direction</th>
+                        <th className="py-2 px-4 font-medium">Nulls</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {order.fields.map((field, index) => (
+                        <tr key={index} className="border-b last:border-b-0">
+                          <td className="py-2 px-4">
+                            {field.source ? (
+                              <>
+                                <span className="font-mono text-xs">{field.source.name}</span>
+                                <span className="text-xs text-muted-foreground ml-2">{field.source.type}</span>
+                                {field.source.dropped && <span className="text-xs text-red-600 ml-2">dropped</span>}
+                              </>
+                            ) : (
+                              <span className="text-xs text-muted-foreground">Unknown (source-id {field['source-id']})</span>
+                            )}
+                          </td>
+                          <td className="py-2 px-4 text-xs">
+                            <span className="font-mono">{field.transform}</span>
+                            {field.transform !== 'identity' && (
+                              <span className="text-muted-foreground ml-2">{describeTransform(field.transform)}</span>
+                            )}
+                          </td>
+                          <td className="py-2 px-4 text-xs uppercase">{field.direction}</td>
+                          <td className="py-2 px-4 text-xs">{field['null-order'] === 'nulls-first' ? 'First' : 'Last'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )
+        })
+      )}
+    </div>
+  )
+}
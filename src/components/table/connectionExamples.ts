@@ -1,3 +1,5 @@
+import type { AuthType } from '@/types/iceberg'
+
 // Helper function to detect if this is an Azure/OneLake catalog
 export function isAzureCatalog(catalogUrl: string, metadataLocation?: string): boolean {
   const urlLower = catalogUrl.toLowerCase()
@@ -16,7 +18,7 @@ export function getDuckDBExample(
   fullTable: string,
   catalogUrl: string,
   warehouseValue: string,
-  authType: 'bearer' | 'oauth2' | 'sigv4',
+  authType: AuthType,
   region: string,
   metadataLocation?: string
 ): { title: string; code: string; language: string } {
@@ -137,7 +139,7 @@ export function getTrinoExample(
   fullTable: string,
   catalogUrl: string,
   warehouseValue: string,
-  authType: 'bearer' | 'oauth2' | 'sigv4',
+  authType: AuthType,
   region: string,
   metadataLocation?: string
 ): { title: string; code: string; language: string } {
@@ -224,7 +226,7 @@ export function getSparkExample(
   fullTable: string,
   catalogUrl: string,
   warehouseValue: string,
-  authType: 'bearer' | 'oauth2' | 'sigv4',
+  authType: AuthType,
   region: string,
   metadataLocation?: string
 ): { title: string; code: string; language: string } {
@@ -339,7 +341,7 @@ export function getPyIcebergExample(
   fullTable: string,
   catalogUrl: string,
   warehouseValue: string,
-  authType: 'bearer' | 'oauth2' | 'sigv4',
+  authType: AuthType,
   region: string,
   metadataLocation?: string
 ): { title: string; code: string; language: string } {
@@ -461,7 +463,7 @@ export function getSnowflakeExample(
   fullTable: string,
   catalogUrl: string,
   warehouseValue: string,
-  authType: 'bearer' | 'oauth2' | 'sigv4',
+  authType: AuthType,
   metadataLocation?: string
 ): { title: string; code: string; language: string } {
   // Check if this is an Azure/OneLake catalog
@@ -0,0 +1,28 @@
+export type TableTab =
+  | 'overview'
+  | 'schema'
+  | 'partitions'
+  | 'sort-order'
+  | 'snapshots'
+  | 'refs'
+  | 'files'
+  | 'history'
+  | 'connect'
+  | 'properties'
+
+export const TABLE_TABS: Array<{ id: TableTab; label: string }> = [
+  { id: 'overview', label: 'Overview' },
+  { id: 'schema', label: 'Schema' },
+  { id: 'partitions', label: 'Partitions' },
+  { id: 'sort-order', label: 'Sort Order' },
+  { id: 'snapshots', label: 'Snapshots' },
+  { id: 'refs', label: 'Branches & Tags' },
+  { id: 'files', label: 'Files' },
+  { id: 'history', label: 'Metadata History' },
+  { id: 'connect', label: 'Connect' },
+  { id: 'properties', label: 'Properties' },
+]
+
+export function isTableTab(value: string | null): value is TableTab {
+  return TABLE_TABS.some((tab) => tab.id === value)
+}
@@ -0,0 +1,184 @@
+import { useState, type ReactNode } from 'react'
+
+export interface StackedBar {
+  key: string
+  label: string
+  values: Record<string, number>
+  total: number
+}
+
+export interface StackedBarSeries {
+  id: string
+  color: string
+}
+
+interface StackedBarChartProps {
+  bars: StackedBar[]
+  series: StackedBarSeries[]
+  height?: number
+  width?: number
+  formatValue?: (value: number) => string
+  tooltipTitle?: (bar: StackedBar) => ReactNode
+  // Called with the first and last bar index when the user drags across the chart
+  onSelectRange?: (fromIndex: number, toIndex: number) => void
+}
+
+const Y_AXIS_WIDTH = 60
+const TOP_PADDING = 15
+const MAX_X_LABELS = 10
+
+export function StackedBarChart({
+  bars,
+  series,
+  height = 200,
+  width = 700,
+  formatValue = (value) => value.toLocaleString('en-US'),
+  tooltipTitle = (bar) => bar.label,
+  onSelectRange,
+}: StackedBarChartProps) {
+  const [hovered, setHovered] = useState<{ index: number; x: number; y: number } | null>(null)
+  const [dragStart, setDragStart] = useState<number | null>(null)
+  const [dragEnd, setDragEnd] = useState<number | null>(null)
+
+  if (bars.length === 0) {
+    return <div style={{ height }} className="flex items-center justify-center text-sm text-muted-foreground">No data</div>
+  }
+
+  const maxTotal = bars.reduce((max, bar) => Math.max(max, bar.total), 0) || 1
+  const barWidth = width / bars.length
+  const barGap = barWidth > 8 ? 2 : barWidth > 3 ? 1 : 0
+  const labelEvery = Math.ceil(bars.length / MAX_X_LABELS)
+  const yTicks = maxTotal <= 4
+    ? Array.from({ length: maxTotal + 1 }, (_, i) => i)
+    : [0, 0.25, 0.5, 0.75, 1].map((fraction) => Math.round(maxTotal * fraction))
+
+  const finishDrag = () => {
+    if (dragStart !== null && dragEnd !== null && dragStart !== dragEnd && onSelectRange) {
+      onSelectRange(Math.min(dragStart, dragEnd), Math.max(dragStart, dragEnd))
+    }
+    setDragStart(null)
+    setDragEnd(null)
+  }
+
+  const hoveredBar = hovered ? bars[hovered.index] : null
+
+  return (
+    <div className="overflow-x-auto">
+      <svg
+        width={Y_AXIS_WIDTH + width + 10}
+        height={height + 40 + TOP_PADDING}
+        className="mx-auto select-none"
+        onMouseLeave={() => {
+          setHovered(null)
+          finishDrag()
+        }}
+        onMouseUp={finishDrag}
+      >
+        <g transform={`translate(0, ${TOP_PADDING})`}>
+          {/* Y-axis */}
+          <line x1={Y_AXIS_WIDTH} y1={0} x2={Y_AXIS_WIDTH} y2={height} stroke="#ddd" strokeWidth="1" />
+          {yTicks.map((tick) => {
+            const tickY = height - (tick / maxTotal) * height
+            return (
+              <g key={tick}>
+                <line x1={Y_AXIS_WIDTH - 4} y1={tickY} x2={Y_AXIS_WIDTH} y2={tickY} stroke="#ddd" strokeWidth="1" />
+                <text x={Y_AXIS_WIDTH - 8} y={tickY} textAnchor="end" alignmentBaseline="middle" fontSize="10" fill="#666">
+                  {formatValue(tick)}
+                </text>
+              </g>
+            )
+          })}
+
+          {/* Drag selection */}
+          {dragStart !== null && dragEnd !== null && (
+            <rect
+              x={Y_AXIS_WIDTH + Math.min(dragStart, dragEnd) * barWidth}
+              y={0}
+              width={(Math.abs(dragEnd - dragStart) + 1) * barWidth}
+              height={height}
+              fill="#5B4B8A"
+              opacity={0.1}
+            />
+          )}
+
+          {/* Bars */}
+          {bars.map((bar, index) => {
+            const x = Y_AXIS_WIDTH + index * barWidth
+            let stackY = height
+
+            return (
+              <g
+                key={bar.key}
+                style={{ cursor: onSelectRange ? 'crosshair' : 'pointer' }}
+                onMouseDown={() => {
+                  setDragStart(index)
+                  setDragEnd(index)
+                }}
+                onMouseEnter={(e) => {
+                  const rect = e.currentTarget.getBoundingClientRect()
+                  setHovered({ index, x: rect.left + rect.width / 2, y: rect.top })
+                  if (dragStart !== null) setDragEnd(index)
+                }}
+              >
+                {/* Full-height hit area so empty buckets still show a tooltip */}
+                <rect x={x} y={0} width={barWidth} height={height} fill="transparent" />
+                {series.map((s) => {
+                  const value = bar.values[s.id] || 0
+                  if (value === 0) return null
+                  const segmentHeight = (value / maxTotal) * height
+                  stackY -= segmentHeight
+                  return (
+                    <rect
+                      key={s.id}
+                      x={x + barGap}
+                      y={stackY}
+                      width={Math.max(barWidth - barGap * 2, 1)}
+                      height={segmentHeight}
+                      fill={s.color}
+                      opacity={hovered?.index === index ? 0.8 : 1}
+                    />
+                  )
+                })}
+                {index % labelEvery === 0 && (
+                  <text
+                    x={x + barWidth / 2}
+                    y={height + 15}
+                    textAnchor="middle"
+                    fontSize="10"
+                    fill="#999"
+                    style={{ pointerEvents: 'none' }}
+                  >
+                    {bar.label}
+                  </text>
+                )}
+              </g>
+            )
+          })}
+        </g>
+      </svg>
+
+      {/* Custom Tooltip */}
+      {hovered && hoveredBar && dragStart === null && (
+        <div
+          className="fixed z-50 bg-gray-900 text-white text-xs px-3 py-2 rounded shadow-lg pointer-events-none"
+          style={{
+            left: `${hovered.x}px`,
+            top: `${hovered.y - 12}px`,
+            transform: 'translate(-50%, -100%)',
+          }}
+        >
+          <div className="font-medium">{tooltipTitle(hoveredBar)}</div>
+          <div className="text-gray-300">Total: {formatValue(hoveredBar.total)}</div>
+          {series
+            .filter((s) => hoveredBar.values[s.id])
+            .map((s) => (
+              <div key={s.id} className="flex items-center gap-1.5 text-gray-300">
+                <span className="w-2 h-2 rounded-full" style={{ background: s.color }}></span>
+                {s.id}: {formatValue(hoveredBar.values[s.id])}
+              </div>
+            ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,11 +1,15 @@
 import { createContext, useContext, useState, ReactNode, useMemo, useCallback } from 'react'
 import type { TableIdentifier } from '@/types/iceberg'
 import type { TableMetrics } from '@/lib/iceberg/metrics'
+import type { IndexedTableSchema } from '@/lib/iceberg/columnSearch'
+import type { NamespaceFailure } from '@/lib/iceberg/namespaces'
 
 export interface NamespaceNode {
   namespace: string[]
   displayName: string
   tables: TableIdentifier[]
+  views: TableIdentifier[]
+  children: NamespaceNode[]
   isExpanded: boolean
 }
 
@@ -24,8 +28,16 @@ interface CatalogDataContextType {
   setNamespaces: (namespaces: NamespaceNode[]) => void
   isLoaded: boolean
   setIsLoaded: (loaded: boolean) => void
+  // Namespaces whose tables failed to load, so they can be retried without reloading everything
+  failedNamespaces: NamespaceFailure[]
+  setFailedNamespaces: (failed: NamespaceFailure[]) => void
   tableMetrics: Map<string, TableMetrics>
   setTableMetric: (tableKey: string, metrics: TableMetrics) => void
+  // Current schema of every table loaded so far, for column search
+  tableSchemas: Map<string, IndexedTableSchema>
+  setTableSchema: (tableKey: string, entry: IndexedTableSchema) => void
+  // Empty the column search index, e.g. on logout or when the catalog is reloaded
+  clearTableSchemas: () => void
 }
 
 interface ApiMonitorContextType {
@@ -39,13 +51,23 @@ const ApiMonitorContext = createContext<ApiMonitorContextType | undefined>(undef
 export function CatalogProvider({ children }: { children: ReactNode }) {
   const [namespaces, setNamespaces] = useState<NamespaceNode[]>([])
   const [isLoaded, setIsLoaded] = useState(false)
+  const [failedNamespaces, setFailedNamespaces] = useState<NamespaceFailure[]>([])
   const [tableMetrics, setTableMetrics] = useState<Map<string, TableMetrics>>(new Map())
+  const [tableSchemas, setTableSchemas] = useState<Map<string, IndexedTableSchema>>(new Map())
   const [apiCalls, setApiCalls] = useState<ApiCall[]>([])
 
   const setTableMetric = useCallback((tableKey: string, metrics: TableMetrics) => {
     setTableMetrics((prev) => new Map(prev).set(tableKey, metrics))
   }, [])
 
+  const setTableSchema = useCallback((tableKey: string, entry: IndexedTableSchema) => {
+    setTableSchemas((prev) => new Map(prev).set(tableKey, entry))
+  }, [])
+
+  const clearTableSchemas = useCallback(() => {
+    setTableSchemas(new Map())
+  }, [])
+
   const addApiCall = useCallback((call: Omit<ApiCall, 'id' | 'timestamp'>) => {
     const newCall: ApiCall = {
       ...call,
@@ -61,8 +83,20 @@ export function CatalogProvider({ children }: { children: ReactNode }) {
 
   // Separate context values - data context only updates when catalog data changes
   const dataValue = useMemo(
-    () => ({ namespaces, setNamespaces, isLoaded, setIsLoaded, tableMetrics, setTableMetric }),
-    [namespaces, isLoaded, tableMetrics, setTableMetric]
+    () => ({
+      namespaces,
+      setNamespaces,
+      isLoaded,
+      setIsLoaded,
+      failedNamespaces,
+      setFailedNamespaces,
+      tableMetrics,
+      setTableMetric,
+      tableSchemas,
+      setTableSchema,
+      clearTableSchemas,
+    }),
+    [namespaces, isLoaded, failedNamespaces, tableMetrics, setTableMetric, tableSchemas, setTableSchema, clearTableSchemas]
   )
 
   // API monitor context can update frequently without affecting other components
@@ -0,0 +1,165 @@
+import type { Snapshot } from '@/types/iceberg'
+
+export type ActivityRange = '24h' | '7d' | '30d' | '90d' | 'all'
+export type ActivityGranularity = 'hour' | 'day' | 'week'
+export type ActivityMetric = 'commits' | 'added-records' | 'added-files-size' | 'deleted-data-files'
+
+export interface ActivityWindow {
+  start: number
+  end: number
+}
+
+export interface ActivityBucket {
+  start: number
+  end: number
+  values: Record<string, number>
+  total: number
+}
+
+export interface SnapshotActivity {
+  buckets: ActivityBucket[]
+  series: string[]
+  granularity: ActivityGranularity
+  // How many granularity units each bucket spans; above 1 when the window is too wide to draw one bar per unit
+  bucketSize: number
+}
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+const UNIT_MS: Record<ActivityGranularity, number> = {
+  hour: HOUR_MS,
+  day: DAY_MS,
+  week: 7 * DAY_MS,
+}
+
+export const ACTIVITY_RANGES: Array<{ id: ActivityRange; label: string; durationMs?: number }> = [
+  { id: '24h', label: '24h', durationMs: DAY_MS },
+  { id: '7d', label: '7d', durationMs: 7 * DAY_MS },
+  { id: '30d', label: '30d', durationMs: 30 * DAY_MS },
+  { id: '90d', label: '90d', durationMs: 90 * DAY_MS },
+  { id: 'all', label: 'All' },
+]
+
+export const ACTIVITY_GRANULARITIES: Array<{ id: ActivityGranularity; label: string }> = [
+  { id: 'hour', label: 'Hourly' },
+  { id: 'day', label: 'Daily' },
+  { id: 'week', label: 'Weekly' },
+]
+
+export const ACTIVITY_METRICS: Array<{ id: ActivityMetric; label: string }> = [
+  { id: 'commits', label: 'Commits' },
+  { id: 'added-records', label: 'Added records' },
+  { id: 'added-files-size', label: 'Added bytes' },
+  { id: 'deleted-data-files', label: 'Deleted files' },
+]
+
+// Keep the bar count drawable no matter how many snapshots or how wide the window
+const MAX_BUCKETS = 120
+
+/**
+ * Get the time window for a range. Windows end at the latest snapshot rather than now,
+ * so tables that haven't been written to recently still show their last burst of activity.
+ */
+export function getActivityWindow(snapshots: Snapshot[], range: ActivityRange): ActivityWindow | null {
+  if (snapshots.length === 0) return null
+
+  let min = Infinity
+  let max = -Infinity
+  for (const snapshot of snapshots) {
+    min = Math.min(min, snapshot['timestamp-ms'])
+    max = Math.max(max, snapshot['timestamp-ms'])
+  }
+
+  const duration = ACTIVITY_RANGES.find((r) => r.id === range)?.durationMs
+  return { start: duration ? max - duration : min, end: max }
+}
+
+/**
+ * Pick a sensible default granularity for a range
+ */
+export function getDefaultGranularity(range: ActivityRange): ActivityGranularity {
+  if (range === '24h') return 'hour'
+  if (range === '7d' || range === '30d') return 'day'
+  return 'week'
+}
+
+function floorToUnit(timestampMs: number, granularity: ActivityGranularity): Date {
+  const date = new Date(timestampMs)
+  date.setMinutes(0, 0, 0)
+  if (granularity === 'hour') return date
+  date.setHours(0)
+  if (granularity === 'week') {
+    // Weeks start on Monday
+    date.setDate(date.getDate() - ((date.getDay() + 6) % 7))
+  }
+  return date
+}
+
+function addUnits(date: Date, granularity: ActivityGranularity, count: number): Date {
+  const next = new Date(date)
+  if (granularity === 'hour') next.setHours(next.getHours() + count)
+  else if (granularity === 'day') next.setDate(next.getDate() + count)
+  else next.setDate(next.getDate() + 7 * count)
+  return next
+}
+
+function metricValue(snapshot: Snapshot, metric: ActivityMetric): number {
+  if (metric === 'commits') return 1
+  const value = Number(snapshot.summary?.[metric])
+  return isNaN(value) ? 0 : value
+}
+
+/**
+ * Bucket snapshots within a window, stacking the chosen metric by snapshot operation.
+ * Granularity is coarsened automatically when the window would need too many bars.
+ */
+export function bucketSnapshotActivity(
+  snapshots: Snapshot[],
+  window: ActivityWindow,
+  granularity: ActivityGranularity,
+  metric: ActivityMetric
+): SnapshotActivity {
+  const unitsPerBucket = (unit: ActivityGranularity) =>
+    Math.max(1, Math.ceil((window.end - window.start) / UNIT_MS[unit] / MAX_BUCKETS))
+
+  // Widen buckets within the chosen unit first, moving to the next unit once a bucket would span a whole one
+  let effective = granularity
+  let bucketSize = unitsPerBucket(effective)
+  while (effective !== 'week' && bucketSize * UNIT_MS[effective] >= UNIT_MS[effective === 'hour' ? 'day' : 'week']) {
+    effective = effective === 'hour' ? 'day' : 'week'
+    bucketSize = unitsPerBucket(effective)
+  }
+
+  // Step through calendar units rather than fixed milliseconds so buckets line up across DST changes
+  const buckets: ActivityBucket[] = []
+  for (let start = floorToUnit(window.start, effective); start.getTime() <= window.end; ) {
+    const end = addUnits(start, effective, bucketSize)
+    buckets.push({ start: start.getTime(), end: end.getTime(), values: {}, total: 0 })
+    start = end
+  }
+
+  const series = new Set<string>()
+  for (const snapshot of snapshots) {
+    const timestamp = snapshot['timestamp-ms']
+    if (timestamp < window.start || timestamp > window.end) continue
+
+    // Binary search for the bucket containing this snapshot
+    let low = 0
+    let high = buckets.length - 1
+    while (low < high) {
+      const mid = (low + high + 1) >> 1
+      if (buckets[mid].start <= timestamp) low = mid
+      else high = mid - 1
+    }
+
+    const bucket = buckets[low]
+    const operation = snapshot.summary?.operation || 'unknown'
+    const value = metricValue(snapshot, metric)
+    bucket.values[operation] = (bucket.values[operation] || 0) + value
+    bucket.total += value
+    series.add(operation)
+  }
+
+  return { buckets, series: [...series].sort(), granularity: effective, bucketSize }
+}
@@ -0,0 +1,318 @@
+/**
+ * Minimal Avro object container file reader for Iceberg manifest lists and manifests.
+ * Supports the null, deflate and snappy codecs and the full set of Avro schema types.
+ */
+
+type AvroSchema =
+  | string
+  | AvroSchema[]
+  | {
+      type: string
+      name?: string
+      namespace?: string
+      fields?: Array<{ name: string; type: AvroSchema }>
+      items?: AvroSchema
+      values?: AvroSchema
+      symbols?: string[]
+      size?: number
+      logicalType?: string
+    }
+
+export interface AvroFile<T = any> {
+  schema: AvroSchema
+  metadata: Record<string, string>
+  records: T[]
+}
+
+const MAGIC = [0x4f, 0x62, 0x6a, 0x01] // "Obj" followed by version 1
+
+class AvroDecoder {
+  private view: DataView
+  private pos = 0
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  }
+
+  get offset(): number {
+    return this.pos
+  }
+
+  readLong(): number {
+    // Zig-zag encoded variable-length integer
+    let result = 0n
+    let shift = 0n
+    let byte: number
+    do {
+      byte = this.bytes[this.pos++]
+      result |= BigInt(byte & 0x7f) << shift
+      shift += 7n
+    } while (byte & 0x80)
+    const decoded = (result >> 1n) ^ -(result & 1n)
+    return Number(decoded)
+  }
+
+  readBoolean(): boolean {
+    return this.bytes[this.pos++] === 1
+  }
+
+  readFloat(): number {
+    const value = this.view.getFloat32(this.pos, true)
+    this.pos += 4
+    return value
+  }
+
+  readDouble(): number {
+    const value = this.view.getFloat64(this.pos, true)
+    this.pos += 8
+    return value
+  }
+
+  readFixed(size: number): Uint8Array {
+    const value = this.bytes.subarray(this.pos, this.pos + size)
+    this.pos += size
+    return value
+  }
+
+  readBytes(): Uint8Array {
+    return this.readFixed(this.readLong())
+  }
+
+  readString(): string {
+    return new TextDecoder().decode(this.readBytes())
+  }
+}
+
+class SchemaReader {
+  private named = new Map<string, AvroSchema>()
+
+  constructor(schema: AvroSchema) {
+    this.register(schema, undefined)
+  }
+
+  private register(schema: AvroSchema, namespace: string | undefined) {
+    if (Array.isArray(schema)) {
+      schema.forEach((s) => this.register(s, namespace))
+      return
+    }
+    if (typeof schema === 'string') return
+
+    const ns = schema.namespace ?? namespace
+    if (schema.name) {
+      const fullName = schema.name.includes('.') || !ns ? schema.name : `${ns}.${schema.name}`
+      this.named.set(fullName, schema)
+      this.named.set(schema.name, schema)
+    }
+    schema.fields?.forEach((f) => this.register(f.type, ns))
+    if (schema.items) this.register(schema.items, ns)
+    if (schema.values) this.register(schema.values, ns)
+  }
+
+  read(schema: AvroSchema, decoder: AvroDecoder): any {
+    if (Array.isArray(schema)) {
+      const branch = decoder.readLong()
+      return this.read(schema[branch], decoder)
+    }
+
+    const type = typeof schema === 'string' ? schema : schema.type
+
+    switch (type) {
+      case 'null':
+        return null
+      case 'boolean':
+        return decoder.readBoolean()
+      case 'int':
+      case 'long':
+        return decoder.readLong()
+      case 'float':
+        return decoder.readFloat()
+      case 'double':
+        return decoder.readDouble()
+      case 'bytes':
+        return decoder.readBytes()
+      case 'string':
+        return decoder.readString()
+      case 'fixed':
+        return decoder.readFixed((schema as { size: number }).size)
+      case 'enum':
+        return (schema as { symbols: string[] }).symbols[decoder.readLong()]
+      case 'record': {
+        const record: Record<string, any> = {}
+        for (const field of (schema as { fields: Array<{ name: string; type: AvroSchema }> }).fields) {
+          record[field.name] = this.read(field.type, decoder)
+        }
+        return record
+      }
+      case 'array': {
+        const items: any[] = []
+        const itemSchema = (schema as { items: AvroSchema }).items
+        this.readBlocks(decoder, () => items.push(this.read(itemSchema, decoder)))
+        return items
+      }
+      case 'map': {
+        const map: Record<string, any> = {}
+        const valueSchema = (schema as { values: AvroSchema }).values
+        this.readBlocks(decoder, () => {
+          const key = decoder.readString()
+          map[key] = this.read(valueSchema, decoder)
+        })
+        return map
+      }
+      default: {
+        const named = this.named.get(type)
+        if (!named || named === schema) {
+          throw new Error(`Unsupported Avro type: ${type}`)
+        }
+        return this.read(named, decoder)
+      }
+    }
+  }
+
+  private readBlocks(decoder: AvroDecoder, readItem: () => void) {
+    let count = decoder.readLong()
+    while (count !== 0) {
+      if (count < 0) {
+        // Negative count is followed by the block size in bytes, which we don't need
+        count = -count
+        decoder.readLong()
+      }
+      for (let i = 0; i < count; i++) readItem()
+      count = decoder.readLong()
+    }
+  }
+}
+
+/**
+ * Decompress a raw (headerless) deflate block
+ */
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/**
+ * Decompress a snappy block. Avro appends a 4-byte CRC32 which we skip.
+ */
+function decompressSnappy(block: Uint8Array): Uint8Array {
+  const data = block.subarray(0, block.length - 4)
+  let pos = 0
+
+  // Uncompressed length as a varint
+  let length = 0
+  let shift = 0
+  let byte: number
+  do {
+    byte = data[pos++]
+    length |= (byte & 0x7f) << shift
+    shift += 7
+  } while (byte & 0x80)
+
+  const out = new Uint8Array(length)
+  let outPos = 0
+
+  while (pos < data.length) {
+    const tag = data[pos++]
+    const tagType = tag & 0x03
+
+    if (tagType === 0) {
+      // Literal
+      let literalLength = tag >> 2
+      if (literalLength >= 60) {
+        const extraBytes = literalLength - 59
+        literalLength = 0
+        for (let i = 0; i < extraBytes; i++) {
+          literalLength |= data[pos++] << (8 * i)
+        }
+      }
+      literalLength += 1
+      out.set(data.subarray(pos, pos + literalLength), outPos)
+      pos += literalLength
+      outPos += literalLength
+      continue
+    }
+
+    let copyLength: number
+    let copyOffset: number
+    if (tagType === 1) {
+      copyLength = ((tag >> 2) & 0x07) + 4
+      copyOffset = ((tag >> 5) << 8) | data[pos++]
+    } else if (tagType === 2) {
+      copyLength = (tag >> 2) + 1
+      copyOffset = data[pos] | (data[pos + 1] << 8)
+      pos += 2
+    } else {
+      copyLength = (tag >> 2) + 1
+      copyOffset = data[pos] | (data[pos + 1] << 8) | (data[pos + 2] << 16) | (data[pos + 3] << 24)
+      pos += 4
+    }
+
+    // Copies may overlap their own output, so go byte by byte
+    for (let i = 0; i < copyLength; i++) {
+      out[outPos] = out[outPos - copyOffset]
+      outPos++
+    }
+  }
+
+  return out
+}
+
+/**
+ * Read every record from an Avro object container file
+ */
+export async function readAvroFile<T = any>(buffer: ArrayBuffer): Promise<AvroFile<T>> {
+  const bytes = new Uint8Array(buffer)
+  if (MAGIC.some((b, i) => bytes[i] !== b)) {
+    throw new Error('Not an Avro object container file')
+  }
+
+  const header = new AvroDecoder(bytes.subarray(MAGIC.length))
+  const metadata: Record<string, string> = {}
+  let count = header.readLong()
+  while (count !== 0) {
+    if (count < 0) {
+      count = -count
+      header.readLong()
+    }
+    for (let i = 0; i < count; i++) {
+      const key = header.readString()
+      metadata[key] = new TextDecoder().decode(header.readBytes())
+    }
+    count = header.readLong()
+  }
+  const sync = header.readFixed(16)
+
+  const schema = JSON.parse(metadata['avro.schema']) as AvroSchema
+  const codec = metadata['avro.codec'] || 'null'
+  const reader = new SchemaReader(schema)
+  const records: T[] = []
+
+  let rest = bytes.subarray(MAGIC.length + header.offset)
+  while (rest.length > 0) {
+    const blockHeader = new AvroDecoder(rest)
+    const objectCount = blockHeader.readLong()
+    const blockSize = blockHeader.readLong()
+    const start = blockHeader.offset
+    let block: Uint8Array = rest.subarray(start, start + blockSize)
+
+    if (codec === 'deflate') {
+      block = await inflateRaw(block)
+    } else if (codec === 'snappy') {
+      block = decompressSnappy(block)
+    } else if (codec !== 'null') {
+      throw new Error(`Unsupported Avro codec: ${codec}`)
+    }
+
+    const decoder = new AvroDecoder(block)
+    for (let i = 0; i < objectCount; i++) {
+      records.push(reader.read(schema, decoder))
+    }
+
+    const blockSync = rest.subarray(start + blockSize, start + blockSize + 16)
+    if (sync.some((b, i) => blockSync[i] !== b)) {
+      throw new Error('Avro sync marker mismatch')
+    }
+    rest = rest.subarray(start + blockSize + 16)
+  }
+
+  return { schema, metadata, records }
+}
@@ -0,0 +1,139 @@
+/**
+ * Persistent cache of catalog responses in IndexedDB, so namespace listings and table
+ * metadata can be shown instantly on the next visit while they're revalidated.
+ * Every operation degrades to a cache miss when IndexedDB is unavailable (e.g. private browsing).
+ */
+
+const DB_NAME = 'iceberg-rest-cache'
+const DB_VERSION = 1
+const STORE = 'responses'
+
+export type CacheKind = 'listing' | 'table' | 'view'
+
+// How long an entry may be served without waiting for the catalog
+export const CACHE_TTL_MS: Record<CacheKind, number> = {
+  listing: 24 * 60 * 60 * 1000,
+  table: 24 * 60 * 60 * 1000,
+  view: 24 * 60 * 60 * 1000,
+}
+
+export interface CacheEntry<T = unknown> {
+  key: string
+  value: T
+  storedAt: number
+  etag?: string
+  // The response carried vended storage credentials, which are never written to the cache
+  strippedCredentials?: boolean
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null)
+        return
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'key' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        console.warn('[Metadata Cache] IndexedDB unavailable:', request.error)
+        resolve(null)
+      }
+    })
+  }
+  return dbPromise
+}
+
+function runRequest<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | undefined> {
+  return openDatabase().then(
+    (db) =>
+      new Promise((resolve) => {
+        if (!db) {
+          resolve(undefined)
+          return
+        }
+        try {
+          const request = operation(db.transaction(STORE, mode).objectStore(STORE))
+          request.onsuccess = () => resolve(request.result)
+          request.onerror = () => {
+            console.warn('[Metadata Cache] Request failed:', request.error)
+            resolve(undefined)
+          }
+        } catch (error) {
+          console.warn('[Metadata Cache] Transaction failed:', error)
+          resolve(undefined)
+        }
+      })
+  )
+}
+
+/**
+ * Build a cache key scoped to the catalog endpoint, warehouse and principal, so entries are
+ * reused by later logins with the same credentials but never served to another catalog or identity
+ */
+export function getCacheKey(endpoint: string, warehouse: string | undefined, principal: string, path: string): string {
+  return `${endpoint}|${warehouse || ''}|${principal}|${path}`
+}
+
+/**
+ * Hash what identifies the logged-in principal (auth type, client ID, access key, custom
+ * headers...) into a fingerprint for cache keys, so no credential is stored in the cache
+ */
+export async function getPrincipalFingerprint(identity: unknown): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(identity)))
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('').slice(0, 32)
+}
+
+export async function readCache<T>(key: string): Promise<CacheEntry<T> | null> {
+  return ((await runRequest('readonly', (store) => store.get(key))) as CacheEntry<T> | undefined) ?? null
+}
+
+export async function writeCache<T>(entry: CacheEntry<T>): Promise<void> {
+  await runRequest('readwrite', (store) => store.put(entry))
+}
+
+export function isCacheEntryFresh(entry: CacheEntry, kind: CacheKind): boolean {
+  return Date.now() - entry.storedAt < CACHE_TTL_MS[kind]
+}
+
+/**
+ * Drop every cached response, or only those for one endpoint, warehouse and principal
+ */
+export async function clearCache(scope?: { endpoint: string; warehouse?: string; principal: string }): Promise<void> {
+  if (scope === undefined) {
+    await runRequest('readwrite', (store) => store.clear())
+    return
+  }
+  const prefix = getCacheKey(scope.endpoint, scope.warehouse, scope.principal, '')
+  await runRequest('readwrite', (store) => store.delete(IDBKeyRange.bound(prefix, `${prefix}\uffff`)))
+}
+
+/**
+ * Delete entries older than the longest TTL; they'd never be served again
+ */
+export async function pruneCache(): Promise<void> {
+  const maxAge = Math.max(...Object.values(CACHE_TTL_MS))
+  const db = await openDatabase()
+  if (!db) return
+
+  await new Promise<void>((resolve) => {
+    const cursorRequest = db.transaction(STORE, 'readwrite').objectStore(STORE).openCursor()
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result
+      if (!cursor) {
+        resolve()
+        return
+      }
+      if (Date.now() - (cursor.value as CacheEntry).storedAt > maxAge) {
+        cursor.delete()
+      }
+      cursor.continue()
+    }
+    cursorRequest.onerror = () => resolve()
+  })
+}
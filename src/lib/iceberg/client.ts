@@ -3,7 +3,22 @@ import type {
   Namespace,
   TableIdentifier,
   LoadTableResult,
+  ListNamespacesResponse,
+  ListTablesResponse,
+  ListViewsResponse,
+  LoadViewResult,
+  PageOptions,
 } from '@/types/iceberg'
+import { getCacheKey, isCacheEntryFresh, readCache, writeCache, type CacheEntry, type CacheKind } from '@/lib/iceberg/cache'
+import { DEFAULT_CONCURRENCY, isAbortError, requestScheduler } from '@/lib/iceberg/scheduler'
+
+export type CachePolicy = 'cache-first' | 'network'
+
+export interface ClientOptions {
+  cachePolicy?: CachePolicy
+  // Cancels every request made by the client, e.g. when the page that started them unmounts
+  signal?: AbortSignal
+}
 
 type ApiCallCallback = (call: { method: string; endpoint: string; duration: number; status: 'success' | 'error' }) => void
 
@@ -13,11 +28,27 @@ export class IcebergClient {
   private warehouse?: string
   private configPromise?: Promise<void>
   private onApiCall?: ApiCallCallback
-
-  constructor(sessionId: string, warehouse?: string, onApiCall?: ApiCallCallback) {
+  private endpoint: string
+  private principal: string
+  private cachePolicy: CachePolicy
+  private signal?: AbortSignal
+  // Responses served from the persistent cache without asking the catalog
+  cacheHits = 0
+
+  constructor(
+    sessionId: string,
+    warehouse?: string,
+    onApiCall?: ApiCallCallback,
+    options: ClientOptions & { endpoint?: string; principal?: string } = {}
+  ) {
     this.sessionId = sessionId
     this.warehouse = warehouse
     this.onApiCall = onApiCall
+    this.endpoint = options.endpoint || ''
+    // Sessions that predate principal fingerprints keep their cache to themselves
+    this.principal = options.principal || sessionId
+    this.cachePolicy = options.cachePolicy || 'cache-first'
+    this.signal = options.signal
 
     console.log('[Iceberg Client] Initialized with:', {
       hasSessionId: !!this.sessionId,
@@ -77,7 +108,7 @@ export class IcebergClient {
     return path
   }
 
-  private async fetchRaw<T>(path: string, options?: RequestInit): Promise<T> {
+  private async send(path: string, options?: RequestInit): Promise<Response> {
     const url = `/api/iceberg${path}`
     const startTime = performance.now()
 
@@ -93,13 +124,19 @@ export class IcebergClient {
     })
 
     try {
-      const response = await fetch(url, {
-        ...options,
-        headers: {
-          ...headers,
-          ...(options?.headers as Record<string, string>),
-        },
-      })
+      // The shared scheduler bounds concurrent requests and retries 429s after a backoff
+      const response = await requestScheduler.run(
+        () =>
+          fetch(url, {
+            ...options,
+            signal: this.signal,
+            headers: {
+              ...headers,
+              ...(options?.headers as Record<string, string>),
+            },
+          }),
+        this.signal
+      )
 
       const duration = Math.round(performance.now() - startTime)
 
@@ -110,7 +147,8 @@ export class IcebergClient {
         duration: `${duration}ms`,
       })
 
-      if (!response.ok) {
+      // 304 answers a conditional (If-None-Match) request: the cached copy is still current
+      if (!response.ok && response.status !== 304) {
         const errorText = await response.text()
 
         // Record failed API call
@@ -159,8 +197,11 @@ export class IcebergClient {
         })
       }
 
-      return response.json()
+      return response
     } catch (error) {
+      // Cancelled on purpose, not a failed call
+      if (isAbortError(error)) throw error
+
       const duration = Math.round(performance.now() - startTime)
 
       // Record error if not already recorded
@@ -177,6 +218,11 @@ export class IcebergClient {
     }
   }
 
+  private async fetchRaw<T>(path: string, options?: RequestInit): Promise<T> {
+    const response = await this.send(path, options)
+    return response.json()
+  }
+
   private async fetch<T>(path: string, options?: RequestInit): Promise<T> {
     // Load config first to get prefix (if needed)
     await this.ensureConfigLoaded()
@@ -187,17 +233,89 @@ export class IcebergClient {
     return this.fetchRaw<T>(fullPath, options)
   }
 
+  /**
+   * Fetch through the persistent cache. With the cache-first policy an unexpired entry is
+   * returned without a request; otherwise the catalog is asked, conditionally with the cached
+   * ETag when `conditional` is set, and the response is stored for next time.
+   * `onRevalidate` is called with fresh data when a cached entry was served and the catalog has changed since.
+   */
+  private async cachedFetch<T>(
+    path: string,
+    kind: CacheKind,
+    options: { conditional?: boolean; onRevalidate?: (value: T) => void } = {}
+  ): Promise<T> {
+    const key = getCacheKey(this.endpoint, this.warehouse, this.principal, path)
+    const entry = await readCache<T>(key)
+
+    if (this.cachePolicy === 'cache-first' && entry && isCacheEntryFresh(entry, kind)) {
+      this.cacheHits++
+      if (options.onRevalidate) {
+        const onRevalidate = options.onRevalidate
+        this.fetchAndStore<T>(path, key, entry, options.conditional)
+          .then(({ value, changed }) => changed && onRevalidate(value))
+          .catch((error) => console.warn('[Iceberg Client] Background revalidation failed:', error))
+      }
+      return entry.value
+    }
+
+    return (await this.fetchAndStore<T>(path, key, entry, options.conditional)).value
+  }
+
+  private async fetchAndStore<T>(
+    path: string,
+    key: string,
+    entry: CacheEntry<T> | null,
+    conditional?: boolean
+  ): Promise<{ value: T; changed: boolean }> {
+    await this.ensureConfigLoaded()
+
+    // A cached copy without its credentials can't stand in for a response that had them
+    const etag = conditional && entry && !entry.strippedCredentials ? entry.etag : undefined
+    const response = await this.send(this.buildUrl(path), etag ? { headers: { 'If-None-Match': etag } } : undefined)
+
+    if (response.status === 304 && entry) {
+      await writeCache({ ...entry, storedAt: Date.now() })
+      return { value: entry.value, changed: false }
+    }
+
+    const value = (await response.json()) as T
+    const { cached, strippedCredentials } = withoutCredentials(value)
+    await writeCache({
+      key,
+      value: cached,
+      storedAt: Date.now(),
+      etag: response.headers.get('ETag') || undefined,
+      strippedCredentials,
+    })
+    return { value, changed: true }
+  }
+
   async getConfig(): Promise<IcebergConfig> {
     return this.fetchRaw<IcebergConfig>('/v1/config' + (this.warehouse ? `?warehouse=${this.warehouse}` : ''))
   }
 
-  async listNamespaces(parent?: string[]): Promise<{ namespaces: string[][] }> {
+  async listNamespaces(parent?: string[], page?: PageOptions): Promise<ListNamespacesResponse> {
     const params = new URLSearchParams()
     if (parent) {
-      params.set('parent', parent.join('.'))
+      // Multipart parents are separated by the unit separator per the REST spec
+      params.set('parent', parent.join('\u001f'))
     }
+    setPageParams(params, page)
     const query = params.toString() ? `?${params.toString()}` : ''
-    return this.fetch<{ namespaces: string[][] }>(`/v1/namespaces${query}`)
+    return this.cachedFetch<ListNamespacesResponse>(`/v1/namespaces${query}`, 'listing')
+  }
+
+  /**
+   * Iterate over every page of namespaces, following next-page-token until exhausted
+   */
+  async *listNamespacesPages(parent?: string[], pageSize?: number): AsyncGenerator<string[][]> {
+    const seen = new Set<string>()
+    let pageToken = ''
+    do {
+      const result = await this.listNamespaces(parent, { pageToken, pageSize })
+      yield result.namespaces
+      pageToken = nextPageToken(result, seen)
+    } while (pageToken)
   }
 
   async getNamespace(namespace: string[]): Promise<Namespace> {
@@ -205,39 +323,196 @@ export class IcebergClient {
     return this.fetch<Namespace>(`/v1/namespaces/${namespacePath}`)
   }
 
-  async listTables(namespace: string[]): Promise<{ identifiers: TableIdentifier[] }> {
+  async listTables(namespace: string[], page?: PageOptions): Promise<ListTablesResponse> {
     const namespacePath = namespace.join('\u001f')
-    return this.fetch<{ identifiers: TableIdentifier[] }>(
-      `/v1/namespaces/${namespacePath}/tables`
-    )
+    const params = new URLSearchParams()
+    setPageParams(params, page)
+    const query = params.toString() ? `?${params.toString()}` : ''
+    return this.cachedFetch<ListTablesResponse>(`/v1/namespaces/${namespacePath}/tables${query}`, 'listing')
+  }
+
+  /**
+   * Iterate over every page of tables in a namespace, following next-page-token until exhausted
+   */
+  async *listTablesPages(namespace: string[], pageSize?: number): AsyncGenerator<TableIdentifier[]> {
+    const seen = new Set<string>()
+    let pageToken = ''
+    do {
+      const result = await this.listTables(namespace, { pageToken, pageSize })
+      yield result.identifiers
+      pageToken = nextPageToken(result, seen)
+    } while (pageToken)
   }
 
-  async loadTable(namespace: string[], table: string): Promise<LoadTableResult> {
+  /**
+   * Load a table, revalidating cached metadata with If-None-Match so an unchanged table
+   * costs a 304 instead of the full metadata. Pass `onRevalidate` to hear about changes
+   * found after a cached copy was returned.
+   */
+  async loadTable(
+    namespace: string[],
+    table: string,
+    options: { onRevalidate?: (result: LoadTableResult) => void } = {}
+  ): Promise<LoadTableResult> {
     const namespacePath = namespace.join('\u001f')
     // Use GET to load table metadata (POST is for committing updates)
-    return this.fetch<LoadTableResult>(
-      `/v1/namespaces/${namespacePath}/tables/${table}`
-    )
+    return this.cachedFetch<LoadTableResult>(`/v1/namespaces/${namespacePath}/tables/${table}`, 'table', {
+      conditional: true,
+      onRevalidate: options.onRevalidate,
+    })
   }
 
-  async fetchMetadataFile(metadataLocation: string): Promise<any> {
-    // Fetch metadata JSON from object storage
-    // Note: This may require different auth depending on the storage backend
-    const response = await fetch(metadataLocation)
+  async listViews(namespace: string[], page?: PageOptions): Promise<ListViewsResponse> {
+    const namespacePath = namespace.join('\u001f')
+    const params = new URLSearchParams()
+    setPageParams(params, page)
+    const query = params.toString() ? `?${params.toString()}` : ''
+    return this.cachedFetch<ListViewsResponse>(`/v1/namespaces/${namespacePath}/views${query}`, 'listing')
+  }
+
+  /**
+   * Iterate over every page of views in a namespace, following next-page-token until exhausted
+   */
+  async *listViewsPages(namespace: string[], pageSize?: number): AsyncGenerator<TableIdentifier[]> {
+    const seen = new Set<string>()
+    let pageToken = ''
+    do {
+      const result = await this.listViews(namespace, { pageToken, pageSize })
+      yield result.identifiers
+      pageToken = nextPageToken(result, seen)
+    } while (pageToken)
+  }
+
+  async loadView(
+    namespace: string[],
+    view: string,
+    options: { onRevalidate?: (result: LoadViewResult) => void } = {}
+  ): Promise<LoadViewResult> {
+    const namespacePath = namespace.join('\u001f')
+    return this.cachedFetch<LoadViewResult>(`/v1/namespaces/${namespacePath}/views/${view}`, 'view', {
+      conditional: true,
+      onRevalidate: options.onRevalidate,
+    })
+  }
+
+  /**
+   * Read a file from object storage through the worker, which signs the request
+   * with the vended credentials from the table's loadTable config
+   */
+  async readStorageFile(uri: string, config: Record<string, string>): Promise<ArrayBuffer> {
+    const startTime = performance.now()
+    const endpoint = `storage:${uri}`
+
+    const response = await fetch('/api/storage/read', {
+      method: 'POST',
+      headers: {
+        'X-Session-ID': this.sessionId,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ uri, config }),
+    })
+
+    const duration = Math.round(performance.now() - startTime)
+    this.onApiCall?.({
+      method: 'POST',
+      endpoint,
+      duration,
+      status: response.ok ? 'success' : 'error',
+    })
+
     if (!response.ok) {
-      throw new Error(`Failed to fetch metadata: ${response.status}`)
+      if (response.status === 401) {
+        sessionStorage.clear()
+        window.location.href = '/'
+        throw new Error('Session expired. Please log in again.')
+      }
+
+      let message = response.statusText
+      try {
+        const errorData = await response.json() as { error?: string; message?: string }
+        message = errorData.message || errorData.error || message
+      } catch {
+        // Non-JSON error body
+      }
+      throw new Error(`Storage read failed (${response.status}): ${message}`)
     }
-    return response.json()
+
+    return response.arrayBuffer()
+  }
+
+  async fetchMetadataFile(metadataLocation: string, config: Record<string, string> = {}): Promise<any> {
+    // Object storage needs signed requests and has no CORS, so read through the worker
+    const buffer = await this.readStorageFile(metadataLocation, config)
+    let bytes = new Uint8Array(buffer)
+
+    // Some writers gzip metadata files (*.gz.metadata.json / *.metadata.json.gz)
+    if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+      const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'))
+      bytes = new Uint8Array(await new Response(stream).arrayBuffer())
+    }
+
+    return JSON.parse(new TextDecoder().decode(bytes))
+  }
+}
+
+/**
+ * Add pagination query params. An empty pageToken is sent on the first request
+ * to tell servers that the client supports pagination.
+ */
+function setPageParams(params: URLSearchParams, page?: PageOptions) {
+  if (!page) return
+  if (page.pageToken !== undefined) {
+    params.set('pageToken', page.pageToken)
+  }
+  if (page.pageSize) {
+    params.set('pageSize', String(page.pageSize))
   }
 }
 
-export function getClient(onApiCall?: ApiCallCallback): IcebergClient {
+/**
+ * Read the token for the next page, or '' to stop when the catalog hands back one it already
+ * sent (which would otherwise page forever); the pages read so far are kept
+ */
+function nextPageToken(result: { 'next-page-token'?: string | null }, seen: Set<string>): string {
+  const token = result['next-page-token'] || ''
+  if (token && seen.has(token)) {
+    console.warn(`[Iceberg Client] Catalog returned the same next-page-token twice ("${token}"); stopping pagination`)
+    return ''
+  }
+  seen.add(token)
+  return token
+}
+
+/**
+ * Copy a response without the vended storage credentials, which must not be persisted
+ */
+function withoutCredentials<T>(value: T): { cached: T; strippedCredentials: boolean } {
+  const result = value as { config?: Record<string, string>; 'storage-credentials'?: unknown[] }
+  if (!result || typeof result !== 'object') return { cached: value, strippedCredentials: false }
+
+  const hasCredentials = Object.keys(result.config || {}).length > 0 || (result['storage-credentials']?.length ?? 0) > 0
+  if (!hasCredentials) return { cached: value, strippedCredentials: false }
+
+  const { config: _config, 'storage-credentials': _credentials, ...rest } = result
+  return { cached: rest as T, strippedCredentials: true }
+}
+
+/**
+ * Create a client for the current session. The `network` cache policy skips unexpired cache
+ * entries (while still refreshing them), e.g. to revalidate data first shown from the cache.
+ */
+export function getClient(onApiCall?: ApiCallCallback, options: ClientOptions = {}): IcebergClient {
   const sessionId = sessionStorage.getItem('iceberg-session-id')
   const warehouse = sessionStorage.getItem('iceberg-warehouse') || undefined
+  const endpoint = sessionStorage.getItem('iceberg-endpoint') || undefined
+  const principal = sessionStorage.getItem('iceberg-principal') || undefined
 
   if (!sessionId) {
     throw new Error('Not authenticated')
   }
 
-  return new IcebergClient(sessionId, warehouse, onApiCall)
+  // Parallel request limit chosen at login
+  requestScheduler.concurrency = Number(sessionStorage.getItem('iceberg-concurrency')) || DEFAULT_CONCURRENCY
+
+  return new IcebergClient(sessionId, warehouse, onApiCall, { ...options, endpoint, principal })
 }
@@ -0,0 +1,182 @@
+import type { IcebergClient } from '@/lib/iceberg/client'
+import { flattenSchema, formatFieldType, type SchemaNode } from '@/lib/iceberg/schema'
+import type { Schema, TableIdentifier, TableMetadata } from '@/types/iceberg'
+
+export interface IndexedTableSchema {
+  namespace: string[]
+  table: string
+  schema: Schema
+}
+
+export interface ColumnQuery {
+  // Bare terms, matched against the column path or its doc
+  terms: string[]
+  name: string[]
+  type: string[]
+  doc: string[]
+  table: string[]
+  required?: boolean
+}
+
+export interface ColumnSearchResult {
+  tableKey: string
+  namespace: string[]
+  table: string
+  field: SchemaNode
+  // The column name equals a searched name exactly, so it ranks above partial matches
+  exact: boolean
+}
+
+export interface IndexProgress {
+  current: number
+  total: number
+  message: string
+}
+
+export const COLUMN_SEARCH_LIMIT = 500
+
+/**
+ * Key a table the same way table metrics are keyed: dotted namespace, then the table name
+ */
+export function getTableKey(namespace: string[], table: string): string {
+  return `${namespace.join('.')}.${table}`
+}
+
+/**
+ * Pick the current schema out of a loadTable response for the column index
+ */
+export function getIndexedSchema(namespace: string[], table: string, metadata: TableMetadata): IndexedTableSchema | null {
+  const schema = metadata.schemas.find((s) => s['schema-id'] === metadata['current-schema-id'])
+  return schema ? { namespace, table, schema } : null
+}
+
+/**
+ * Parse a query such as `customer_id type:string` or `doc:pii table:sales`.
+ * Quoted values may contain spaces, e.g. `doc:"personal data"`.
+ */
+export function parseColumnQuery(input: string): ColumnQuery {
+  const query: ColumnQuery = { terms: [], name: [], type: [], doc: [], table: [] }
+  const tokens = input.match(/(\w+:)?("[^"]*"|\S+)/g) || []
+
+  for (const token of tokens) {
+    const match = token.match(/^(\w+):(.*)$/)
+    const key = match?.[1].toLowerCase()
+    const value = (match ? match[2] : token).replace(/^"|"$/g, '').toLowerCase()
+    if (!value) continue
+
+    switch (key) {
+      case 'name':
+      case 'type':
+      case 'doc':
+      case 'table':
+        query[key].push(value)
+        break
+      case 'required':
+        query.required = ['true', 'yes', 'y', '1'].includes(value)
+        break
+      default:
+        query.terms.push(token.toLowerCase().replace(/^"|"$/g, ''))
+    }
+  }
+
+  return query
+}
+
+export function isEmptyColumnQuery(query: ColumnQuery): boolean {
+  return (
+    query.terms.length + query.name.length + query.type.length + query.doc.length + query.table.length === 0 &&
+    query.required === undefined
+  )
+}
+
+/**
+ * Match a type filter against a field's type: `string` matches only strings, `decimal`
+ * matches any precision, and `struct`/`list`/`map` match nested types of that kind
+ */
+function matchesType(type: SchemaNode['type'], filter: string): boolean {
+  const text = (typeof type === 'string' ? type : type.type).toLowerCase()
+  if (text === filter || text.startsWith(`${filter}(`) || text.startsWith(`${filter}[`)) return true
+  // Allow filtering by the full rendering too, e.g. `type:decimal(10,2)`
+  return formatFieldType(type).toLowerCase().replace(/\s/g, '') === filter.replace(/\s/g, '')
+}
+
+/**
+ * Match a name filter, where `*` is a wildcard; without one the name only has to contain the value
+ */
+function matchesName(name: string, filter: string): boolean {
+  if (!filter.includes('*')) return name.includes(filter)
+  const pattern = filter.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')
+  return new RegExp(`^${pattern}$`).test(name)
+}
+
+/**
+ * Search every indexed schema for fields matching all parts of the query, nested fields included
+ */
+export function searchColumns(index: Iterable<IndexedTableSchema>, query: ColumnQuery, limit = COLUMN_SEARCH_LIMIT): ColumnSearchResult[] {
+  if (isEmptyColumnQuery(query)) return []
+
+  const results: ColumnSearchResult[] = []
+  for (const entry of index) {
+    const tableKey = getTableKey(entry.namespace, entry.table)
+    const tableText = tableKey.toLowerCase()
+    if (!query.table.every((filter) => tableText.includes(filter))) continue
+
+    for (const field of flattenSchema(entry.schema)) {
+      // Only named fields are searchable; list elements and map keys/values are reached through their parent
+      if (field.kind !== 'field') continue
+
+      const name = field.name.toLowerCase()
+      const path = field.path.toLowerCase()
+      const doc = (field.doc || '').toLowerCase()
+
+      if (query.required !== undefined && field.required !== query.required) continue
+      if (!query.name.every((filter) => matchesName(name, filter))) continue
+      if (!query.type.every((filter) => matchesType(field.type, filter))) continue
+      if (!query.doc.every((filter) => doc.includes(filter))) continue
+      if (!query.terms.every((term) => path.includes(term) || doc.includes(term))) continue
+
+      const exact = [...query.name, ...query.terms].some((value) => value === name)
+      results.push({ tableKey, namespace: entry.namespace, table: entry.table, field, exact })
+    }
+  }
+
+  results.sort((a, b) =>
+    Number(b.exact) - Number(a.exact) || a.tableKey.localeCompare(b.tableKey) || a.field.path.localeCompare(b.field.path)
+  )
+  return results.slice(0, limit)
+}
+
+/**
+ * Load the tables that aren't indexed yet, one at a time, handing each schema to `onIndexed`.
+ * Tables that fail to load are skipped and counted.
+ */
+export async function indexTableSchemas(
+  client: IcebergClient,
+  tables: TableIdentifier[],
+  onIndexed: (entry: IndexedTableSchema) => void,
+  onProgress?: (progress: IndexProgress) => void,
+  signal?: AbortSignal
+): Promise<{ indexed: number; failed: number }> {
+  let indexed = 0
+  let failed = 0
+
+  for (const [i, table] of tables.entries()) {
+    if (signal?.aborted) break
+    onProgress?.({ current: i, total: tables.length, message: `Indexing ${getTableKey(table.namespace, table.name)}...` })
+
+    try {
+      const result = await client.loadTable(table.namespace, table.name)
+      const entry = getIndexedSchema(table.namespace, table.name, result.metadata)
+      if (entry) {
+        onIndexed(entry)
+        indexed++
+      }
+    } catch (err) {
+      console.warn(`Failed to index ${getTableKey(table.namespace, table.name)}:`, err)
+      failed++
+    }
+  }
+
+  onProgress?.({ current: tables.length, total: tables.length, message: 'Complete!' })
+  return { indexed, failed }
+}
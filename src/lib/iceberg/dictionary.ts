@@ -0,0 +1,318 @@
+import type { IcebergClient } from '@/lib/iceberg/client'
+import { extractTableMetrics, formatBytes, formatDate, formatNumber, type TableMetrics } from '@/lib/iceberg/metrics'
+import { flattenSchema, formatFieldType, formatTypeSummary } from '@/lib/iceberg/schema'
+import { formatSortOrder, getSortOrders } from '@/lib/iceberg/sortOrders'
+import { resolveSourceColumn } from '@/lib/iceberg/transforms'
+import type { TableIdentifier, TableMetadata } from '@/types/iceberg'
+
+export type DictionaryFormat = 'markdown' | 'csv' | 'json' | 'html'
+
+export const DICTIONARY_FORMATS: Array<{ id: DictionaryFormat; label: string; extension: string; mimeType: string }> = [
+  { id: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  { id: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  { id: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { id: 'html', label: 'HTML', extension: 'html', mimeType: 'text/html' },
+]
+
+export interface DictionaryColumn {
+  id: number
+  path: string
+  type: string
+  required: boolean
+  doc?: string
+}
+
+export interface DictionaryTable {
+  namespace: string
+  name: string
+  location?: string
+  formatVersion?: number
+  schemaId?: number
+  columns: DictionaryColumn[]
+  partitioning: string[]
+  sortOrder: string | null
+  properties: Record<string, string>
+  metrics: TableMetrics | null
+  // Set when the table couldn't be loaded; the entry is kept so the export shows what's missing
+  error?: string
+}
+
+export interface DictionaryProgress {
+  current: number
+  total: number
+  message: string
+}
+
+/**
+ * Build a table's dictionary entry from its current schema, default spec and sort order
+ */
+export function describeTable(namespace: string, name: string, metadata: TableMetadata): DictionaryTable {
+  const schema = metadata.schemas.find((s) => s['schema-id'] === metadata['current-schema-id'])
+  const spec = metadata['partition-specs'].find((s) => s['spec-id'] === metadata['default-spec-id'])
+  const sortOrder = getSortOrders(metadata).find((o) => o['order-id'] === metadata['default-sort-order-id'])
+
+  return {
+    namespace,
+    name,
+    location: metadata.location,
+    formatVersion: metadata['format-version'],
+    schemaId: schema?.['schema-id'],
+    // Skip list elements and map keys/values without ids; they carry no name or doc of their own
+    columns: (schema ? flattenSchema(schema) : [])
+      .filter((node) => node.id >= 0)
+      .map((node) => ({
+        id: node.id,
+        path: node.path,
+        type: node.hasChildren ? formatTypeSummary(node.type) : formatFieldType(node.type),
+        required: node.required,
+        doc: node.doc,
+      })),
+    partitioning: (spec?.fields || [])
+      .filter((field) => field.transform !== 'void')
+      .map((field) => {
+        const source = resolveSourceColumn(metadata, field['source-id'])?.name ?? `field ${field['source-id']}`
+        return field.transform === 'identity' ? source : `${field.transform}(${source})`
+      }),
+    sortOrder: sortOrder && sortOrder.fields.length > 0 ? formatSortOrder(sortOrder) : null,
+    properties: metadata.properties || {},
+    metrics: extractTableMetrics(metadata),
+  }
+}
+
+/**
+ * Load every table and describe it. Tables are loaded one at a time, and a table that
+ * fails to load is recorded with its error instead of aborting the export.
+ */
+export async function loadDataDictionary(
+  client: IcebergClient,
+  tables: TableIdentifier[],
+  onProgress?: (progress: DictionaryProgress) => void,
+  signal?: AbortSignal
+): Promise<DictionaryTable[]> {
+  const entries: DictionaryTable[] = []
+
+  for (const [index, table] of tables.entries()) {
+    if (signal?.aborted) break
+    const namespace = table.namespace.join('.')
+    onProgress?.({ current: index, total: tables.length, message: `Loading ${namespace}.${table.name}...` })
+
+    try {
+      const result = await client.loadTable(table.namespace, table.name)
+      entries.push(describeTable(namespace, table.name, result.metadata))
+    } catch (err) {
+      entries.push({
+        namespace,
+        name: table.name,
+        columns: [],
+        partitioning: [],
+        sortOrder: null,
+        properties: {},
+        metrics: null,
+        error: err instanceof Error ? err.message : 'Failed to load table',
+      })
+    }
+  }
+
+  onProgress?.({ current: entries.length, total: tables.length, message: 'Complete!' })
+  return entries
+}
+
+function escapeMarkdown(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, ' ')
+}
+
+function toMarkdown(title: string, tables: DictionaryTable[], generatedAt: number): string {
+  const lines = [`# Data Dictionary: ${title}`, '', `Generated ${formatDate(generatedAt)} · ${tables.length} tables`, '']
+
+  lines.push('## Tables', '')
+  // Same slugs GitHub and most renderers give the `## namespace.table` headings
+  tables.forEach((t) => lines.push(`- [${t.namespace}.${t.name}](#${`${t.namespace}.${t.name}`.toLowerCase().replace(/[^a-z0-9_\- ]/g, '').replace(/ /g, '-')})`))
+
+  for (const table of tables) {
+    lines.push('', `## ${table.namespace}.${table.name}`, '')
+    if (table.error) {
+      lines.push(`> Failed to load: ${table.error}`)
+      continue
+    }
+
+    lines.push(`- **Location:** \`${table.location}\``)
+    lines.push(`- **Format version:** ${table.formatVersion} · **Schema ID:** ${table.schemaId}`)
+    lines.push(`- **Partitioning:** ${table.partitioning.length > 0 ? table.partitioning.map((p) => `\`${p}\``).join(', ') : 'Unpartitioned'}`)
+    lines.push(`- **Sort order:** ${table.sortOrder ? `\`${table.sortOrder}\`` : 'Unsorted'}`)
+    if (table.metrics) {
+      lines.push(
+        `- **Rows:** ${formatNumber(table.metrics.totalRows)} · **Size:** ${formatBytes(table.metrics.totalSizeBytes)} · ` +
+          `**Data files:** ${formatNumber(table.metrics.totalDataFiles)} · **Delete files:** ${formatNumber(table.metrics.totalDeleteFiles)}`
+      )
+      lines.push(`- **Last updated:** ${formatDate(table.metrics.lastUpdatedMs)} · **Snapshots:** ${table.metrics.snapshotCount}`)
+    }
+
+    lines.push('', '| ID | Column | Type | Required | Description |', '| --- | --- | --- | --- | --- |')
+    table.columns.forEach((c) => {
+      lines.push(`| ${c.id} | \`${escapeMarkdown(c.path)}\` | \`${escapeMarkdown(c.type)}\` | ${c.required ? 'Yes' : 'No'} | ${escapeMarkdown(c.doc || '')} |`)
+    })
+
+    const properties = Object.entries(table.properties)
+    if (properties.length > 0) {
+      lines.push('', '<details><summary>Properties</summary>', '', '| Property | Value |', '| --- | --- |')
+      properties.forEach(([key, value]) => lines.push(`| \`${escapeMarkdown(key)}\` | ${escapeMarkdown(value)} |`))
+      lines.push('', '</details>')
+    }
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+function csvCell(value: string | number | boolean | undefined | null): string {
+  const text = value === undefined || value === null ? '' : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * One row per column, with the table-level details repeated so the file can be filtered in a spreadsheet
+ */
+function toCsv(tables: DictionaryTable[]): string {
+  const header = [
+    'namespace', 'table', 'column_id', 'column', 'type', 'required', 'description',
+    'partitioning', 'sort_order', 'total_rows', 'total_size_bytes', 'data_files', 'last_updated',
+    'location', 'properties', 'error',
+  ]
+  const rows = [header.join(',')]
+
+  for (const table of tables) {
+    const tableCells = [
+      table.partitioning.join('; '),
+      table.sortOrder,
+      table.metrics?.totalRows,
+      table.metrics?.totalSizeBytes,
+      table.metrics?.totalDataFiles,
+      table.metrics ? new Date(table.metrics.lastUpdatedMs).toISOString() : '',
+      table.location,
+      Object.entries(table.properties).map(([k, v]) => `${k}=${v}`).join('; '),
+      table.error,
+    ]
+    const columns = table.columns.length > 0 ? table.columns : [null]
+    for (const column of columns) {
+      rows.push(
+        [table.namespace, table.name, column?.id, column?.path, column?.type, column ? (column.required ? 'true' : 'false') : '', column?.doc, ...tableCells]
+          .map(csvCell)
+          .join(',')
+      )
+    }
+  }
+
+  return rows.join('\n') + '\n'
+}
+
+function toJson(title: string, tables: DictionaryTable[], generatedAt: number): string {
+  return JSON.stringify({ title, generatedAt: new Date(generatedAt).toISOString(), tables }, null, 2)
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function toHtml(title: string, tables: DictionaryTable[], generatedAt: number): string {
+  const anchor = (t: DictionaryTable) => escapeHtml(`${t.namespace}.${t.name}`)
+
+  const sections = tables.map((table) => {
+    const heading = `<h2 id="${anchor(table)}">${escapeHtml(`${table.namespace}.${table.name}`)}</h2>`
+    if (table.error) {
+      return `<section>${heading}<p class="error">Failed to load: ${escapeHtml(table.error)}</p></section>`
+    }
+
+    const facts = [
+      ['Location', `<code>${escapeHtml(table.location || '')}</code>`],
+      ['Format version', String(table.formatVersion)],
+      ['Schema ID', String(table.schemaId)],
+      ['Partitioning', table.partitioning.length > 0 ? table.partitioning.map((p) => `<code>${escapeHtml(p)}</code>`).join(', ') : 'Unpartitioned'],
+      ['Sort order', table.sortOrder ? `<code>${escapeHtml(table.sortOrder)}</code>` : 'Unsorted'],
+      ...(table.metrics
+        ? [
+            ['Rows', formatNumber(table.metrics.totalRows)],
+            ['Size', formatBytes(table.metrics.totalSizeBytes)],
+            ['Data files', formatNumber(table.metrics.totalDataFiles)],
+            ['Delete files', formatNumber(table.metrics.totalDeleteFiles)],
+            ['Last updated', escapeHtml(formatDate(table.metrics.lastUpdatedMs))],
+            ['Snapshots', String(table.metrics.snapshotCount)],
+          ]
+        : []),
+    ]
+
+    const columnRows = table.columns
+      .map((c) => {
+        const depth = c.path.split('.').length - 1
+        return `<tr><td>${c.id}</td><td style="padding-left:${0.5 + depth * 1.25}rem"><code>${escapeHtml(c.path)}</code></td><td><code>${escapeHtml(c.type)}</code></td><td>${c.required ? 'Yes' : 'No'}</td><td>${escapeHtml(c.doc || '')}</td></tr>`
+      })
+      .join('\n')
+
+    const properties = Object.entries(table.properties)
+    const propertyTable = properties.length > 0
+      ? `<details><summary>Properties (${properties.length})</summary><table><thead><tr><th>Property</th><th>Value</th></tr></thead><tbody>${properties
+          .map(([k, v]) => `<tr><td><code>${escapeHtml(k)}</code></td><td>${escapeHtml(v)}</td></tr>`)
+          .join('')}</tbody></table></details>`
+      : ''
+
+    return `<section>
+${heading}
+<dl>${facts.map(([label, value]) => `<dt>${label}</dt><dd>${value}</dd>`).join('')}</dl>
+<table><thead><tr><th>ID</th><th>Column</th><th>Type</th><th>Required</th><th>Description</th></tr></thead>
+<tbody>
+${columnRows}
+</tbody></table>
+${propertyTable}
+</section>`
+  })
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Data Dictionary: ${escapeHtml(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 72rem; padding: 0 1rem; color: #111827; }
+h1 { font-weight: 300; }
+h2 { border-top: 1px solid #e5e7eb; padding-top: 1.5rem; margin-top: 2rem; font-weight: 500; }
+table { border-collapse: collapse; width: 100%; font-size: 0.875rem; margin: 1rem 0; }
+th, td { text-align: left; padding: 0.375rem 0.5rem; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+th { font-weight: 600; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; font-size: 0.875rem; }
+dt { color: #6b7280; }
+dd { margin: 0; }
+code { font-size: 0.8125rem; }
+.meta, .error { color: #6b7280; }
+.error { color: #b91c1c; }
+</style>
+</head>
+<body>
+<h1>Data Dictionary: ${escapeHtml(title)}</h1>
+<p class="meta">Generated ${escapeHtml(formatDate(generatedAt))} · ${tables.length} tables</p>
+<ul>
+${tables.map((t) => `<li><a href="#${anchor(t)}">${anchor(t)}</a></li>`).join('\n')}
+</ul>
+${sections.join('\n')}
+</body>
+</html>
+`
+}
+
+/**
+ * Render a data dictionary of the given tables as one document
+ */
+export function renderDataDictionary(
+  format: DictionaryFormat,
+  title: string,
+  tables: DictionaryTable[],
+  generatedAt = Date.now()
+): string {
+  switch (format) {
+    case 'markdown':
+      return toMarkdown(title, tables, generatedAt)
+    case 'csv':
+      return toCsv(tables)
+    case 'json':
+      return toJson(title, tables, generatedAt)
+    case 'html':
+      return toHtml(title, tables, generatedAt)
+  }
+}
@@ -0,0 +1,69 @@
+import { getAncestorIds, getRefs, getRefsBySnapshot, type NamedRef } from '@/lib/iceberg/refs'
+import type { Snapshot, TableMetadata } from '@/types/iceberg'
+
+export interface LineageNode {
+  snapshot: Snapshot
+  column: number
+  lane: number
+  refs: NamedRef[]
+  orphaned: boolean
+}
+
+export interface LineageEdge {
+  parentId: number
+  childId: number
+}
+
+export interface SnapshotLineage {
+  nodes: LineageNode[]
+  edges: LineageEdge[]
+  laneCount: number
+}
+
+/**
+ * Lay out snapshots as a DAG: columns follow commit order and each branch (or orphaned
+ * chain left behind by a rollback) gets its own lane, with main on the first lane.
+ */
+export function buildSnapshotLineage(metadata: TableMetadata): SnapshotLineage {
+  const snapshots = [...(metadata.snapshots || [])].sort(
+    (a, b) => (a['sequence-number'] ?? 0) - (b['sequence-number'] ?? 0) || a['timestamp-ms'] - b['timestamp-ms']
+  )
+  const byId = new Map(snapshots.map((s) => [s['snapshot-id'], s]))
+  const refs = getRefs(metadata)
+  const refsBySnapshot = getRefsBySnapshot(metadata)
+
+  // Snapshots reachable from a branch or tag; everything else was orphaned by a rollback or failed WAP
+  const reachable = new Set(refs.flatMap((ref) => getAncestorIds(metadata, ref['snapshot-id'])))
+
+  const hasChildren = new Set(snapshots.map((s) => s['parent-snapshot-id']))
+  const tips = [
+    ...refs.map((ref) => ref['snapshot-id']),
+    ...snapshots.filter((s) => !hasChildren.has(s['snapshot-id'])).map((s) => s['snapshot-id']).reverse(),
+  ]
+
+  const lanes = new Map<number, number>()
+  let laneCount = 0
+  for (const tip of tips) {
+    let assigned = false
+    for (const id of getAncestorIds(metadata, tip)) {
+      if (lanes.has(id)) break
+      lanes.set(id, laneCount)
+      assigned = true
+    }
+    if (assigned) laneCount++
+  }
+
+  const nodes = snapshots.map((snapshot, column) => ({
+    snapshot,
+    column,
+    lane: lanes.get(snapshot['snapshot-id']) ?? 0,
+    refs: refsBySnapshot.get(snapshot['snapshot-id']) || [],
+    orphaned: refs.length > 0 && !reachable.has(snapshot['snapshot-id']),
+  }))
+
+  const edges = snapshots
+    .filter((s) => s['parent-snapshot-id'] !== undefined && byId.has(s['parent-snapshot-id']))
+    .map((s) => ({ parentId: s['parent-snapshot-id']!, childId: s['snapshot-id'] }))
+
+  return { nodes, edges, laneCount: Math.max(laneCount, 1) }
+}
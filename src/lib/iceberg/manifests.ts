@@ -0,0 +1,178 @@
+import type { IcebergClient } from '@/lib/iceberg/client'
+import { readAvroFile } from '@/lib/iceberg/avro'
+import type { DataFile, ManifestEntry, ManifestFile } from '@/types/iceberg'
+
+/**
+ * Read and decode a snapshot's manifest list
+ */
+export async function readManifestList(
+  client: IcebergClient,
+  manifestListUri: string,
+  config: Record<string, string>
+): Promise<ManifestFile[]> {
+  const buffer = await client.readStorageFile(manifestListUri, config)
+  const file = await readAvroFile<ManifestFile>(buffer)
+  return file.records
+}
+
+/**
+ * Read and decode every entry of a manifest file
+ */
+export async function readManifest(
+  client: IcebergClient,
+  manifestUri: string,
+  config: Record<string, string>
+): Promise<ManifestEntry[]> {
+  const buffer = await client.readStorageFile(manifestUri, config)
+  const file = await readAvroFile<any>(buffer)
+
+  return file.records.map((record) => ({
+    status: record.status,
+    snapshot_id: record.snapshot_id ?? undefined,
+    sequence_number: record.sequence_number ?? undefined,
+    data_file: normalizeDataFile(record.data_file),
+  }))
+}
+
+/**
+ * Iceberg stores int-keyed maps as arrays of key/value records; turn them into Maps
+ */
+function toIdMap<V>(value: unknown): Map<number, V> | undefined {
+  if (!value) return undefined
+  if (Array.isArray(value)) {
+    return new Map(value.map((entry: { key: number; value: V }) => [entry.key, entry.value]))
+  }
+  return new Map(Object.entries(value as Record<string, V>).map(([k, v]) => [Number(k), v]))
+}
+
+function normalizeDataFile(raw: any): DataFile {
+  return {
+    content: raw.content ?? 0,
+    file_path: raw.file_path,
+    file_format: raw.file_format,
+    partition: raw.partition || {},
+    record_count: raw.record_count,
+    file_size_in_bytes: raw.file_size_in_bytes,
+    column_sizes: toIdMap<number>(raw.column_sizes),
+    value_counts: toIdMap<number>(raw.value_counts),
+    null_value_counts: toIdMap<number>(raw.null_value_counts),
+    lower_bounds: toIdMap<Uint8Array>(raw.lower_bounds),
+    upper_bounds: toIdMap<Uint8Array>(raw.upper_bounds),
+    equality_ids: raw.equality_ids ?? undefined,
+  }
+}
+
+/**
+ * Get a manifest's content type label
+ */
+export function getManifestContentLabel(manifest: ManifestFile): 'data' | 'deletes' {
+  return manifest.content === 1 ? 'deletes' : 'data'
+}
+
+/**
+ * Get a data file's content type label
+ */
+export function getDataFileContentLabel(file: DataFile): string {
+  if (file.content === 1) return 'position deletes'
+  if (file.content === 2) return 'equality deletes'
+  return 'data'
+}
+
+/**
+ * Get a manifest entry's status label
+ */
+export function getEntryStatusLabel(entry: ManifestEntry): 'existing' | 'added' | 'deleted' {
+  if (entry.status === 1) return 'added'
+  if (entry.status === 2) return 'deleted'
+  return 'existing'
+}
+
+/**
+ * Count files tracked by a manifest, accepting both v1 and v2 field names
+ */
+export function getManifestFileCounts(manifest: ManifestFile) {
+  return {
+    added: manifest.added_files_count ?? manifest.added_data_files_count ?? 0,
+    existing: manifest.existing_files_count ?? manifest.existing_data_files_count ?? 0,
+    deleted: manifest.deleted_files_count ?? manifest.deleted_data_files_count ?? 0,
+  }
+}
+
+/**
+ * Render a partition tuple as `name=value` pairs
+ */
+export function formatPartition(partition: Record<string, unknown>): string {
+  const entries = Object.entries(partition)
+  if (entries.length === 0) return '(unpartitioned)'
+  return entries.map(([key, value]) => `${key}=${value === null ? 'null' : String(value)}`).join(', ')
+}
+
+/**
+ * Decode a single-value serialized bound according to its Iceberg primitive type, falling
+ * back to hex for bytes that don't fit the type
+ */
+export function decodeBound(bytes: Uint8Array, type: string): string {
+  try {
+    return decodeBoundValue(bytes, type)
+  } catch {
+    return `0x${toHex(bytes)}`
+  }
+}
+
+function decodeBoundValue(bytes: Uint8Array, type: string): string {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+
+  if (type === 'boolean') return bytes[0] ? 'true' : 'false'
+  if (type === 'int') return String(view.getInt32(0, true))
+  // Files written before an int -> long or float -> double promotion keep 4-byte bounds
+  if (type === 'long') return bytes.byteLength === 4 ? String(view.getInt32(0, true)) : view.getBigInt64(0, true).toString()
+  if (type === 'float') return String(view.getFloat32(0, true))
+  if (type === 'double') return String(bytes.byteLength === 4 ? view.getFloat32(0, true) : view.getFloat64(0, true))
+  if (type === 'string') return new TextDecoder().decode(bytes)
+  if (type === 'date') {
+    return new Date(view.getInt32(0, true) * 86400000).toISOString().slice(0, 10)
+  }
+  if (type === 'time') {
+    const micros = Number(view.getBigInt64(0, true))
+    return new Date(micros / 1000).toISOString().slice(11, 23)
+  }
+  if (type.startsWith('timestamp')) {
+    const value = view.getBigInt64(0, true)
+    // Nanosecond types divide by 1e6, microsecond types by 1e3
+    const millis = Number(type.endsWith('_ns') ? value / 1000000n : value / 1000n)
+    return new Date(millis).toISOString()
+  }
+  if (type === 'uuid' && bytes.length === 16) {
+    const hex = toHex(bytes)
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`
+  }
+  const decimal = type.match(/^decimal\(\s*\d+\s*,\s*(\d+)\s*\)$/)
+  if (decimal) {
+    return formatDecimal(bytes, Number(decimal[1]))
+  }
+
+  // binary, fixed[n] and anything unknown
+  return `0x${toHex(bytes)}`
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Decimals are big-endian two's complement unscaled values
+ */
+function formatDecimal(bytes: Uint8Array, scale: number): string {
+  let unscaled = 0n
+  for (const b of bytes) {
+    unscaled = (unscaled << 8n) | BigInt(b)
+  }
+  if (bytes.length > 0 && bytes[0] & 0x80) {
+    unscaled -= 1n << BigInt(bytes.length * 8)
+  }
+
+  const negative = unscaled < 0n
+  const digits = (negative ? -unscaled : unscaled).toString().padStart(scale + 1, '0')
+  const formatted = scale > 0 ? `${digits.slice(0, -scale)}.${digits.slice(-scale)}` : digits
+  return negative ? `-${formatted}` : formatted
+}
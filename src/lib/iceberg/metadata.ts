@@ -0,0 +1,138 @@
+import { compareSchemas, hasSchemaChanges, type SchemaChanges } from '@/lib/iceberg/schema'
+import type { LoadTableResult, PartitionField, PartitionSpec, Schema, Snapshot, TableMetadata } from '@/types/iceberg'
+
+export interface MetadataLogEntry {
+  file: string
+  timestampMs: number
+  isCurrent: boolean
+}
+
+export interface MetadataVersion {
+  file: string
+  timestampMs: number
+  metadata: TableMetadata
+}
+
+export interface ValueChange {
+  key: string
+  from?: string
+  to?: string
+}
+
+export interface MetadataDiff {
+  fields: ValueChange[]
+  schemaChanges: SchemaChanges | null
+  addedSchemaIds: number[]
+  addedSpecs: PartitionSpec[]
+  addedSnapshots: Snapshot[]
+  removedSnapshots: Snapshot[]
+  properties: ValueChange[]
+}
+
+// Top-level metadata fields worth calling out when they change between versions
+const TRACKED_FIELDS = [
+  'format-version',
+  'location',
+  'current-schema-id',
+  'default-spec-id',
+  'default-sort-order-id',
+  'current-snapshot-id',
+  'last-column-id',
+  'last-partition-id',
+] as const
+
+/**
+ * List every metadata file the table has had, newest first, including the current one
+ */
+export function getMetadataLog(result: LoadTableResult): MetadataLogEntry[] {
+  const entries: MetadataLogEntry[] = (result.metadata['metadata-log'] || []).map((entry) => ({
+    file: entry['metadata-file'],
+    timestampMs: entry['timestamp-ms'],
+    isCurrent: false,
+  }))
+
+  const current = result['metadata-location']
+  if (current && !entries.some((entry) => entry.file === current)) {
+    entries.push({ file: current, timestampMs: result.metadata['last-updated-ms'], isCurrent: true })
+  }
+
+  return entries.sort((a, b) => b.timestampMs - a.timestampMs)
+}
+
+/**
+ * Convert format v1 metadata, which may only carry the single `schema` and `partition-spec`
+ * fields, to the `schemas` / `partition-specs` lists that v2 metadata (and the rest of the app) uses
+ */
+export function normalizeTableMetadata(metadata: TableMetadata): TableMetadata {
+  const v1 = metadata as TableMetadata & { schema?: Schema; 'partition-spec'?: PartitionField[] }
+  const schemas = v1.schemas ?? (v1.schema ? [{ ...v1.schema, 'schema-id': v1.schema['schema-id'] ?? 0 }] : [])
+  const specs = v1['partition-specs'] ?? [{ 'spec-id': 0, fields: v1['partition-spec'] || [] }]
+
+  return {
+    ...metadata,
+    schemas,
+    'current-schema-id': metadata['current-schema-id'] ?? schemas[0]?.['schema-id'] ?? 0,
+    'partition-specs': specs,
+    'default-spec-id': metadata['default-spec-id'] ?? specs[0]['spec-id'],
+  }
+}
+
+/**
+ * Compare two versions of a table's metadata, describing what changed going from `oldMetadata` to `newMetadata`
+ */
+export function diffTableMetadata(oldMetadata: TableMetadata, newMetadata: TableMetadata): MetadataDiff {
+  oldMetadata = normalizeTableMetadata(oldMetadata)
+  newMetadata = normalizeTableMetadata(newMetadata)
+
+  const fields: ValueChange[] = []
+  for (const key of TRACKED_FIELDS) {
+    const from = oldMetadata[key]
+    const to = newMetadata[key]
+    if (from !== to) {
+      fields.push({ key, from: from?.toString(), to: to?.toString() })
+    }
+  }
+
+  const oldSchema = oldMetadata.schemas.find((s) => s['schema-id'] === oldMetadata['current-schema-id'])
+  const newSchema = newMetadata.schemas.find((s) => s['schema-id'] === newMetadata['current-schema-id'])
+  const schemaChanges = oldSchema && newSchema ? compareSchemas(oldSchema, newSchema) : null
+
+  const oldSchemaIds = new Set(oldMetadata.schemas.map((s) => s['schema-id']))
+  const oldSpecIds = new Set(oldMetadata['partition-specs'].map((s) => s['spec-id']))
+  const oldSnapshotIds = new Set((oldMetadata.snapshots || []).map((s) => s['snapshot-id']))
+  const newSnapshotIds = new Set((newMetadata.snapshots || []).map((s) => s['snapshot-id']))
+
+  const oldProperties = oldMetadata.properties || {}
+  const newProperties = newMetadata.properties || {}
+  const properties: ValueChange[] = []
+  for (const key of new Set([...Object.keys(oldProperties), ...Object.keys(newProperties)])) {
+    if (oldProperties[key] !== newProperties[key]) {
+      properties.push({ key, from: oldProperties[key], to: newProperties[key] })
+    }
+  }
+
+  return {
+    fields,
+    schemaChanges: hasSchemaChanges(schemaChanges) ? schemaChanges : null,
+    addedSchemaIds: newMetadata.schemas.map((s) => s['schema-id']).filter((id) => !oldSchemaIds.has(id)),
+    addedSpecs: newMetadata['partition-specs'].filter((s) => !oldSpecIds.has(s['spec-id'])),
+    addedSnapshots: (newMetadata.snapshots || []).filter((s) => !oldSnapshotIds.has(s['snapshot-id'])),
+    removedSnapshots: (oldMetadata.snapshots || []).filter((s) => !newSnapshotIds.has(s['snapshot-id'])),
+    properties: properties.sort((a, b) => a.key.localeCompare(b.key)),
+  }
+}
+
+/**
+ * Check whether a metadata diff found any differences
+ */
+export function hasMetadataChanges(diff: MetadataDiff): boolean {
+  return (
+    diff.fields.length > 0 ||
+    !!diff.schemaChanges ||
+    diff.addedSchemaIds.length > 0 ||
+    diff.addedSpecs.length > 0 ||
+    diff.addedSnapshots.length > 0 ||
+    diff.removedSnapshots.length > 0 ||
+    diff.properties.length > 0
+  )
+}
@@ -88,6 +88,21 @@ export function formatRelativeTime(timestampMs: number): string {
   return `${seconds}s ago`
 }
 
+/**
+ * Format a duration in milliseconds, e.g. retention settings
+ */
+export function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000)
+  const minutes = Math.floor(seconds / 60)
+  const hours = Math.floor(minutes / 60)
+  const days = Math.floor(hours / 24)
+
+  if (days > 0) return `${days}d`
+  if (hours > 0) return `${hours}h`
+  if (minutes > 0) return `${minutes}m`
+  return `${seconds}s`
+}
+
 /**
  * Format timestamp to date string
  */
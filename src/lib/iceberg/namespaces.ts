@@ -0,0 +1,270 @@
+import type { IcebergClient } from '@/lib/iceberg/client'
+import type { NamespaceNode } from '@/lib/context/CatalogContext'
+import { isAbortError } from '@/lib/iceberg/scheduler'
+import type { TableIdentifier } from '@/types/iceberg'
+
+export interface LoadProgress {
+  current: number
+  total: number
+  message: string
+  pagesLoaded?: number
+  // Namespaces whose tables or child namespaces couldn't be listed so far
+  failed?: string[]
+}
+
+export interface NamespaceFailure {
+  namespace: string[]
+  error: string
+}
+
+export interface NamespaceTreeResult {
+  nodes: NamespaceNode[]
+  failed: NamespaceFailure[]
+}
+
+interface NamespaceEntry {
+  namespace: string[]
+  tables: TableIdentifier[]
+  views: TableIdentifier[]
+}
+
+/**
+ * Walk the namespace hierarchy through the `parent` parameter of listNamespaces,
+ * loading the tables and views of every namespace found along the way. Every page of each
+ * listing is followed, so catalogs that paginate are loaded completely.
+ * Namespaces load concurrently, bounded by the client's request scheduler; those whose
+ * tables or child namespaces fail to load are returned in `failed` so they can be retried on their own.
+ * Returns the root namespaces with their descendants nested under `children`.
+ */
+export async function loadNamespaceTree(
+  client: IcebergClient,
+  onProgress?: (progress: LoadProgress) => void,
+  signal?: AbortSignal
+): Promise<NamespaceTreeResult> {
+  let pagesLoaded = 0
+  onProgress?.({ current: 0, total: 1, message: 'Loading namespaces...', pagesLoaded })
+
+  const roots: string[][] = []
+  for await (const page of client.listNamespacesPages()) {
+    roots.push(...page)
+    pagesLoaded++
+    onProgress?.({
+      current: 0,
+      total: roots.length + 1,
+      message: `Found ${roots.length} namespaces...`,
+      pagesLoaded,
+    })
+  }
+
+  const { entries, failed } = await walkNamespaces(client, roots, pagesLoaded, onProgress, signal)
+  return { nodes: buildNamespaceTree(entries), failed }
+}
+
+/**
+ * Reload only the namespaces that failed, re-listing their children and walking anything
+ * beneath them, and merge the results into an already loaded tree
+ */
+export async function retryFailedNamespaces(
+  client: IcebergClient,
+  nodes: NamespaceNode[],
+  failed: NamespaceFailure[],
+  onProgress?: (progress: LoadProgress) => void,
+  signal?: AbortSignal
+): Promise<NamespaceTreeResult> {
+  const result = await walkNamespaces(client, failed.map((f) => f.namespace), 0, onProgress, signal)
+
+  const merged = new Map<string, NamespaceEntry>(
+    flattenNamespaces(nodes).map((node) => [node.displayName, { namespace: node.namespace, tables: node.tables, views: node.views }])
+  )
+  result.entries.forEach((entry) => merged.set(entry.namespace.join('.'), entry))
+
+  return { nodes: buildNamespaceTree([...merged.values()]), failed: result.failed }
+}
+
+async function walkNamespaces(
+  client: IcebergClient,
+  start: string[][],
+  pagesLoaded: number,
+  onProgress?: (progress: LoadProgress) => void,
+  signal?: AbortSignal
+): Promise<{ entries: NamespaceEntry[]; failed: NamespaceFailure[] }> {
+  const discovered = new Map<string, NamespaceEntry>()
+  const seen = new Set<string>()
+  const failed: NamespaceFailure[] = []
+  let completed = 0
+
+  // A namespace appears once even if both its tables and its children failed
+  const recordFailure = (ns: string[], error: string) => {
+    const existing = failed.find((f) => f.namespace.join('.') === ns.join('.'))
+    if (existing) {
+      existing.error = `${existing.error}; ${error}`
+    } else {
+      failed.push({ namespace: ns, error })
+    }
+  }
+
+  const reportProgress = (message: string) =>
+    onProgress?.({
+      current: completed,
+      total: Math.max(seen.size, 1),
+      message,
+      pagesLoaded,
+      failed: failed.map((f) => f.namespace.join('.')),
+    })
+
+  const visit = async (ns: string[]): Promise<void> => {
+    const displayName = ns.join('.')
+    if (seen.has(displayName)) return
+    seen.add(displayName)
+    if (signal?.aborted) throw new DOMException('Aborted', 'AbortError')
+    reportProgress(`Loading tables from ${displayName}...`)
+
+    const loadTables = async () => {
+      const tables: TableIdentifier[] = []
+      try {
+        for await (const page of client.listTablesPages(ns)) {
+          tables.push(...page)
+          pagesLoaded++
+          reportProgress(`Loading tables from ${displayName}... (${tables.length} so far)`)
+        }
+      } catch (err) {
+        if (isAbortError(err)) throw err
+        // Still add the namespace (with any pages already fetched), and remember it for a retry
+        console.error(`Failed to load tables for ${displayName}:`, err)
+        recordFailure(ns, `Tables: ${err instanceof Error ? err.message : String(err)}`)
+      }
+      return tables
+    }
+
+    const loadViews = async () => {
+      const views: TableIdentifier[] = []
+      try {
+        for await (const page of client.listViewsPages(ns)) {
+          views.push(...page)
+          pagesLoaded++
+        }
+      } catch (err) {
+        if (isAbortError(err)) throw err
+        // Catalogs without view support reject the views endpoint
+        console.warn(`Failed to load views for ${displayName}:`, err)
+      }
+      return views
+    }
+
+    const loadChildren = async () => {
+      const children: string[][] = []
+      try {
+        for await (const page of client.listNamespacesPages(ns)) {
+          // Some catalogs ignore `parent` and return the top level again, so only
+          // keep strict descendants of the namespace we asked about
+          children.push(...page.filter((child) => child.length > ns.length && ns.every((part, i) => child[i] === part)))
+          pagesLoaded++
+        }
+      } catch (err) {
+        if (isAbortError(err)) throw err
+        if (isUnsupportedParentError(err)) {
+          // Catalogs without nested namespace support may reject `parent` outright
+          console.warn(`Catalog can't list child namespaces of ${displayName}:`, err)
+        } else {
+          // Anything else would silently drop the whole subtree, so surface it for a retry
+          console.error(`Failed to list child namespaces of ${displayName}:`, err)
+          recordFailure(ns, `Child namespaces: ${err instanceof Error ? err.message : String(err)}`)
+        }
+      }
+      return children
+    }
+
+    const [tables, views, children] = await Promise.all([loadTables(), loadViews(), loadChildren()])
+    discovered.set(displayName, { namespace: ns, tables, views })
+    completed++
+    reportProgress(`Loaded ${displayName}`)
+
+    await Promise.all(children.map(visit))
+  }
+
+  await Promise.all(start.map(visit))
+
+  onProgress?.({
+    current: completed,
+    total: completed,
+    message: failed.length > 0 ? `Complete, ${failed.length} failed` : 'Complete!',
+    pagesLoaded,
+    failed: failed.map((f) => f.namespace.join('.')),
+  })
+
+  return { entries: [...discovered.values()], failed }
+}
+
+/**
+ * Whether listing children failed because the catalog rejects the `parent` parameter
+ * (400, 404, 405 or 501) rather than because of a transient or server error
+ */
+function isUnsupportedParentError(err: unknown): boolean {
+  return err instanceof Error && /\((400|404|405|501)\)/.test(err.message)
+}
+
+/**
+ * Nest a flat list of namespaces under their closest discovered ancestor
+ */
+export function buildNamespaceTree(entries: NamespaceEntry[]): NamespaceNode[] {
+  const nodes = new Map<string, NamespaceNode>()
+  const sorted = [...entries].sort((a, b) => a.namespace.length - b.namespace.length)
+
+  for (const entry of sorted) {
+    nodes.set(entry.namespace.join('.'), {
+      namespace: entry.namespace,
+      displayName: entry.namespace.join('.'),
+      tables: entry.tables,
+      views: entry.views,
+      children: [],
+      isExpanded: false,
+    })
+  }
+
+  const roots: NamespaceNode[] = []
+  for (const node of nodes.values()) {
+    let parent: NamespaceNode | undefined
+    for (let len = node.namespace.length - 1; len > 0 && !parent; len--) {
+      parent = nodes.get(node.namespace.slice(0, len).join('.'))
+    }
+    if (parent) {
+      parent.children.push(node)
+    } else {
+      roots.push(node)
+    }
+  }
+
+  const sortNodes = (list: NamespaceNode[]) => {
+    list.sort((a, b) => a.displayName.localeCompare(b.displayName))
+    list.forEach((n) => sortNodes(n.children))
+  }
+  sortNodes(roots)
+
+  return roots
+}
+
+/**
+ * Flatten the namespace tree into depth-first order
+ */
+export function flattenNamespaces(nodes: NamespaceNode[]): NamespaceNode[] {
+  return nodes.flatMap((node) => [node, ...flattenNamespaces(node.children)])
+}
+
+/**
+ * Find a namespace anywhere in the tree by its dotted display name
+ */
+export function findNamespace(nodes: NamespaceNode[], displayName: string): NamespaceNode | undefined {
+  for (const node of nodes) {
+    if (node.displayName === displayName) return node
+    const found = findNamespace(node.children, displayName)
+    if (found) return found
+  }
+  return undefined
+}
+
+/**
+ * Get the last segment of a namespace for display inside the tree
+ */
+export function getNamespaceLabel(node: NamespaceNode): string {
+  return node.namespace[node.namespace.length - 1] ?? node.displayName
+}
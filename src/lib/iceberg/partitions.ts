@@ -0,0 +1,69 @@
+import { resolveSourceColumn, type SourceColumn } from '@/lib/iceberg/transforms'
+import type { PartitionField, PartitionSpec, TableMetadata } from '@/types/iceberg'
+
+export interface ResolvedPartitionField extends PartitionField {
+  source: SourceColumn | null
+}
+
+export interface ResolvedPartitionSpec extends Omit<PartitionSpec, 'fields'> {
+  fields: ResolvedPartitionField[]
+}
+
+export interface PartitionSpecChange {
+  type: 'added' | 'removed' | 'changed'
+  sourceName: string
+  from?: string
+  to?: string
+}
+
+/**
+ * List partition specs oldest first, with each field's source column resolved
+ */
+export function getPartitionSpecs(metadata: TableMetadata): ResolvedPartitionSpec[] {
+  return [...metadata['partition-specs']]
+    .sort((a, b) => a['spec-id'] - b['spec-id'])
+    .map((spec) => ({
+      ...spec,
+      fields: spec.fields.map((field) => ({ ...field, source: resolveSourceColumn(metadata, field['source-id']) })),
+    }))
+}
+
+/**
+ * Describe how one spec evolved into the next, per source column. A column whose transform
+ * changed (e.g. `day` to `hour`) shows as a single change rather than a removal plus an addition.
+ */
+export function diffPartitionSpecs(
+  metadata: TableMetadata,
+  oldSpec: Pick<PartitionSpec, 'fields'>,
+  newSpec: Pick<PartitionSpec, 'fields'>
+): PartitionSpecChange[] {
+  // v1 tables keep dropped fields as `void` so field ids stay stable; treat those as absent
+  const active = (spec: Pick<PartitionSpec, 'fields'>) => spec.fields.filter((f) => f.transform !== 'void')
+  const bySource = (fields: PartitionField[]) => {
+    const map = new Map<number, string[]>()
+    fields.forEach((f) => map.set(f['source-id'], [...(map.get(f['source-id']) || []), f.transform]))
+    return map
+  }
+
+  const oldBySource = bySource(active(oldSpec))
+  const newBySource = bySource(active(newSpec))
+  const sourceName = (sourceId: number) => resolveSourceColumn(metadata, sourceId)?.name || `field ${sourceId}`
+  const changes: PartitionSpecChange[] = []
+
+  for (const [sourceId, transforms] of newBySource) {
+    const previous = oldBySource.get(sourceId)
+    if (!previous) {
+      changes.push({ type: 'added', sourceName: sourceName(sourceId), to: transforms.join(', ') })
+    } else if (previous.join(',') !== transforms.join(',')) {
+      changes.push({ type: 'changed', sourceName: sourceName(sourceId), from: previous.join(', '), to: transforms.join(', ') })
+    }
+  }
+
+  for (const [sourceId, transforms] of oldBySource) {
+    if (!newBySource.has(sourceId)) {
+      changes.push({ type: 'removed', sourceName: sourceName(sourceId), from: transforms.join(', ') })
+    }
+  }
+
+  return changes
+}
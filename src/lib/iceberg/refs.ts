@@ -0,0 +1,74 @@
+import type { SnapshotRef, TableMetadata } from '@/types/iceberg'
+
+export const MAIN_BRANCH = 'main'
+
+export interface NamedRef extends SnapshotRef {
+  name: string
+}
+
+export interface RefDivergence {
+  ahead: number
+  behind: number
+}
+
+/**
+ * List the table's branches and tags, main first, then branches, then tags.
+ * Tables written before refs existed only have current-snapshot-id, which is an implicit main branch.
+ */
+export function getRefs(metadata: TableMetadata): NamedRef[] {
+  const refs: NamedRef[] = Object.entries(metadata.refs || {}).map(([name, ref]) => ({ name, ...ref }))
+
+  if (!refs.some((ref) => ref.name === MAIN_BRANCH) && metadata['current-snapshot-id'] != null && metadata['current-snapshot-id'] !== -1) {
+    refs.push({ name: MAIN_BRANCH, type: 'branch', 'snapshot-id': metadata['current-snapshot-id'] })
+  }
+
+  const rank = (ref: NamedRef) => (ref.name === MAIN_BRANCH ? 0 : ref.type === 'branch' ? 1 : 2)
+  return refs.sort((a, b) => rank(a) - rank(b) || a.name.localeCompare(b.name))
+}
+
+/**
+ * Group refs by the snapshot they point at
+ */
+export function getRefsBySnapshot(metadata: TableMetadata): Map<number, NamedRef[]> {
+  const bySnapshot = new Map<number, NamedRef[]>()
+  for (const ref of getRefs(metadata)) {
+    const refs = bySnapshot.get(ref['snapshot-id']) || []
+    refs.push(ref)
+    bySnapshot.set(ref['snapshot-id'], refs)
+  }
+  return bySnapshot
+}
+
+/**
+ * Walk parent pointers from a snapshot back to the oldest snapshot still in the metadata
+ */
+export function getAncestorIds(metadata: TableMetadata, snapshotId: number): number[] {
+  const parents = new Map((metadata.snapshots || []).map((s) => [s['snapshot-id'], s['parent-snapshot-id']]))
+  const ancestors = new Set<number>()
+  let current: number | undefined = snapshotId
+
+  while (current !== undefined && parents.has(current) && !ancestors.has(current)) {
+    ancestors.add(current)
+    current = parents.get(current)
+  }
+
+  return [...ancestors]
+}
+
+/**
+ * Count how many snapshots a ref has that main does not (ahead), and vice versa (behind)
+ */
+export function compareRefToMain(metadata: TableMetadata, ref: SnapshotRef): RefDivergence | null {
+  const main = getRefs(metadata).find((r) => r.name === MAIN_BRANCH)
+  if (!main) return null
+
+  const refAncestors = getAncestorIds(metadata, ref['snapshot-id'])
+  const mainAncestors = getAncestorIds(metadata, main['snapshot-id'])
+  const inRef = new Set(refAncestors)
+  const inMain = new Set(mainAncestors)
+
+  return {
+    ahead: refAncestors.filter((id) => !inMain.has(id)).length,
+    behind: mainAncestors.filter((id) => !inRef.has(id)).length,
+  }
+}
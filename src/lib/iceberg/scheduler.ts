@@ -0,0 +1,123 @@
+/**
+ * Bounded-concurrency scheduler for catalog requests. At most `concurrency` requests are in
+ * flight at once; a 429 response pauses every queued request until the catalog's Retry-After
+ * has passed, then the rate-limited request is retried.
+ */
+
+export const DEFAULT_CONCURRENCY = 4
+export const CONCURRENCY_OPTIONS = [1, 2, 4, 8, 16]
+
+const MAX_RETRIES = 5
+const MAX_BACKOFF_MS = 60 * 1000
+
+/**
+ * Wait for `ms`, rejecting with an AbortError as soon as the signal fires
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'))
+      return
+    }
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timeout)
+      reject(new DOMException('Aborted', 'AbortError'))
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError'
+}
+
+/**
+ * How long to wait before retrying a 429: the Retry-After header (seconds or an HTTP date)
+ * when the catalog sends one, otherwise exponential backoff with jitter
+ */
+export function getRetryDelay(response: Response, attempt: number): number {
+  const retryAfter = response.headers.get('Retry-After')
+  if (retryAfter) {
+    const seconds = Number(retryAfter)
+    if (!Number.isNaN(seconds)) return Math.min(seconds * 1000, MAX_BACKOFF_MS)
+    const date = Date.parse(retryAfter)
+    if (!Number.isNaN(date)) return Math.min(Math.max(date - Date.now(), 0), MAX_BACKOFF_MS)
+  }
+  return Math.min(1000 * 2 ** attempt + Math.random() * 250, MAX_BACKOFF_MS)
+}
+
+export class RequestScheduler {
+  concurrency: number
+  private active = 0
+  private waiting: Array<() => void> = []
+  // Set by a 429; no request starts before this time
+  private pausedUntil = 0
+
+  constructor(concurrency = DEFAULT_CONCURRENCY) {
+    this.concurrency = concurrency
+  }
+
+  /**
+   * Run a request once a slot is free, retrying it after a backoff while the catalog answers 429
+   */
+  async run(request: () => Promise<Response>, signal?: AbortSignal): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(signal)
+      let response: Response
+      try {
+        const pause = this.pausedUntil - Date.now()
+        if (pause > 0) {
+          await sleep(pause, signal)
+        }
+        response = await request()
+      } finally {
+        this.release()
+      }
+
+      if (response.status !== 429 || attempt >= MAX_RETRIES) {
+        return response
+      }
+      const delay = getRetryDelay(response, attempt)
+      console.warn(`[Request Scheduler] Rate limited, retrying in ${Math.round(delay / 1000)}s`)
+      this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay)
+    }
+  }
+
+  private acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new DOMException('Aborted', 'AbortError'))
+    }
+    if (this.active < this.concurrency) {
+      this.active++
+      return Promise.resolve()
+    }
+
+    return new Promise((resolve, reject) => {
+      const start = () => {
+        signal?.removeEventListener('abort', onAbort)
+        this.active++
+        resolve()
+      }
+      const onAbort = () => {
+        this.waiting = this.waiting.filter((waiter) => waiter !== start)
+        reject(new DOMException('Aborted', 'AbortError'))
+      }
+      this.waiting.push(start)
+      signal?.addEventListener('abort', onAbort, { once: true })
+    })
+  }
+
+  private release() {
+    this.active--
+    while (this.active < this.concurrency && this.waiting.length > 0) {
+      this.waiting.shift()!()
+    }
+  }
+}
+
+// Shared by every client so a 429 slows down the whole app, not just one page's requests
+export const requestScheduler = new RequestScheduler()
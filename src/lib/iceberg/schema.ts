@@ -0,0 +1,243 @@
+import type { Schema, SchemaField } from '@/types/iceberg'
+
+export interface SchemaFieldModification {
+  field: SchemaNode
+  oldField: SchemaNode
+  oldType: SchemaField['type']
+  oldRequired: boolean
+  typeChanged: boolean
+  // The type change is a promotion Iceberg allows in place (int→long, float→double, wider decimal)
+  promoted: boolean
+  requiredChanged: boolean
+  renamed: boolean
+  docChanged: boolean
+  reordered: boolean
+}
+
+export interface SchemaChanges {
+  added: SchemaNode[]
+  removed: SchemaNode[]
+  modified: SchemaFieldModification[]
+}
+
+/**
+ * Identify a type for comparison. Nested types compare by kind only, since changes
+ * inside them are reported against their own child fields.
+ */
+function typeKey(type: SchemaField['type']): string {
+  return typeof type === 'string' ? type : type.type
+}
+
+/**
+ * Check whether changing `from` to `to` is a type promotion allowed by the Iceberg spec
+ */
+export function isTypePromotion(from: SchemaField['type'], to: SchemaField['type']): boolean {
+  if (typeof from !== 'string' || typeof to !== 'string') return false
+  if (from === 'int' && to === 'long') return true
+  if (from === 'float' && to === 'double') return true
+
+  const oldDecimal = from.match(/^decimal\((\d+),\s*(\d+)\)$/)
+  const newDecimal = to.match(/^decimal\((\d+),\s*(\d+)\)$/)
+  return !!oldDecimal && !!newDecimal && oldDecimal[2] === newDecimal[2] && Number(newDecimal[1]) > Number(oldDecimal[1])
+}
+
+/**
+ * Find each field's position among the siblings it shares with the other schema,
+ * so adding or dropping a column doesn't count as reordering its neighbours
+ */
+function sharedSiblingPositions(nodes: SchemaNode[], sharedIds: Set<number>): Map<number, number> {
+  const positions = new Map<number, number>()
+  const counters = new Map<number | undefined, number>()
+  for (const node of nodes) {
+    if (node.kind !== 'field' || !sharedIds.has(node.id)) continue
+    const position = counters.get(node.parentId) ?? 0
+    positions.set(node.id, position)
+    counters.set(node.parentId, position + 1)
+  }
+  return positions
+}
+
+/**
+ * Compare any two schemas by field id, including nested struct fields, list elements and map keys/values.
+ * Detects additions, removals, renames, type changes and promotions, requiredness, doc changes and reordering.
+ */
+export function compareSchemas(oldSchema: Schema, newSchema: Schema): SchemaChanges {
+  const changes: SchemaChanges = {
+    added: [],
+    removed: [],
+    modified: [],
+  }
+
+  const oldNodes = flattenSchema(oldSchema).filter((node) => node.id >= 0)
+  const newNodes = flattenSchema(newSchema).filter((node) => node.id >= 0)
+  const oldFields = new Map(oldNodes.map((node) => [node.id, node]))
+  const newFields = new Map(newNodes.map((node) => [node.id, node]))
+
+  // Only report the outermost added or removed field; its children come and go with it
+  newNodes.forEach((node) => {
+    if (!oldFields.has(node.id) && (node.parentId === undefined || oldFields.has(node.parentId))) {
+      changes.added.push(node)
+    }
+  })
+  oldNodes.forEach((node) => {
+    if (!newFields.has(node.id) && (node.parentId === undefined || newFields.has(node.parentId))) {
+      changes.removed.push(node)
+    }
+  })
+
+  const sharedIds = new Set(newNodes.filter((node) => oldFields.has(node.id)).map((node) => node.id))
+  const oldPositions = sharedSiblingPositions(oldNodes, sharedIds)
+  const newPositions = sharedSiblingPositions(newNodes, sharedIds)
+
+  newNodes.forEach((newField) => {
+    const oldField = oldFields.get(newField.id)
+    if (!oldField) return
+
+    const typeChanged = typeKey(oldField.type) !== typeKey(newField.type)
+    const requiredChanged = oldField.required !== newField.required
+    const renamed = oldField.name !== newField.name
+    const docChanged = (oldField.doc || '') !== (newField.doc || '')
+    const reordered = oldField.parentId === newField.parentId && oldPositions.get(newField.id) !== newPositions.get(newField.id)
+
+    if (typeChanged || requiredChanged || renamed || docChanged || reordered) {
+      changes.modified.push({
+        field: newField,
+        oldField,
+        oldType: oldField.type,
+        oldRequired: oldField.required,
+        typeChanged,
+        promoted: typeChanged && isTypePromotion(oldField.type, newField.type),
+        requiredChanged,
+        renamed,
+        docChanged,
+        reordered,
+      })
+    }
+  })
+
+  return changes
+}
+
+/**
+ * Check whether a comparison found any differences
+ */
+export function hasSchemaChanges(changes: SchemaChanges | null): changes is SchemaChanges {
+  return !!changes && (changes.added.length > 0 || changes.removed.length > 0 || changes.modified.length > 0)
+}
+
+/**
+ * Render a field type as a string, serializing nested types as JSON
+ */
+export function formatFieldType(type: SchemaField['type']): string {
+  return typeof type === 'string' ? type : JSON.stringify(type)
+}
+
+/**
+ * Find a field by id anywhere in a schema, including inside structs, lists and maps.
+ * Returns the field together with its dotted path from the schema root.
+ */
+export function findFieldById(schema: Schema, id: number): { field: SchemaField; path: string } | null {
+  const search = (fields: SchemaField[], prefix: string): { field: SchemaField; path: string } | null => {
+    for (const field of fields) {
+      const path = prefix ? `${prefix}.${field.name}` : field.name
+      if (field.id === id) return { field, path }
+      const nested = searchType(field.type, path)
+      if (nested) return nested
+    }
+    return null
+  }
+
+  const searchType = (type: SchemaField['type'] | undefined, path: string): { field: SchemaField; path: string } | null => {
+    if (!type || typeof type === 'string') return null
+    if (type.type === 'struct' && type.fields) return search(type.fields, path)
+    if (type.type === 'list') return searchType(type.element, `${path}.element`)
+    if (type.type === 'map') {
+      return searchType(type.key, `${path}.key`) || searchType(type.value, `${path}.value`)
+    }
+    return null
+  }
+
+  return search(schema.fields, '')
+}
+
+export interface SchemaNode {
+  id: number
+  name: string
+  // Dotted path from the schema root; list elements and map keys/values appear as `element`, `key` and `value`
+  path: string
+  parentPath?: string
+  parentId?: number
+  depth: number
+  kind: 'field' | 'element' | 'key' | 'value'
+  type: SchemaField['type']
+  required: boolean
+  doc?: string
+  hasChildren: boolean
+}
+
+/**
+ * Render a type compactly, e.g. `list<struct>` or `map<string, long>`
+ */
+export function formatTypeSummary(type: SchemaField['type'] | undefined): string {
+  if (!type) return 'unknown'
+  if (typeof type === 'string') return type
+  if (type.type === 'list') return `list<${formatTypeSummary(type.element)}>`
+  if (type.type === 'map') return `map<${formatTypeSummary(type.key)}, ${formatTypeSummary(type.value)}>`
+  return 'struct'
+}
+
+/**
+ * Flatten a schema depth-first into one node per struct field, list element and map key/value
+ */
+export function flattenSchema(schema: Schema): SchemaNode[] {
+  const nodes: SchemaNode[] = []
+
+  const hasChildren = (type: SchemaField['type'] | undefined) => !!type && typeof type !== 'string'
+
+  const visitType = (type: SchemaField['type'] | undefined, path: string, parentId: number, depth: number) => {
+    if (!type || typeof type === 'string') return
+    if (type.type === 'struct') {
+      type.fields?.forEach((field) => visitField(field, path, parentId, depth))
+    } else if (type.type === 'list') {
+      addNode('element', type['element-id'] ?? -1, type.element, type['element-required'] ?? false, path, parentId, depth)
+    } else if (type.type === 'map') {
+      addNode('key', type['key-id'] ?? -1, type.key, true, path, parentId, depth)
+      addNode('value', type['value-id'] ?? -1, type.value, type['value-required'] ?? false, path, parentId, depth)
+    }
+  }
+
+  const addNode = (
+    kind: 'element' | 'key' | 'value',
+    id: number,
+    type: SchemaField['type'] | undefined,
+    required: boolean,
+    parentPath: string,
+    parentId: number,
+    depth: number
+  ) => {
+    const path = `${parentPath}.${kind}`
+    nodes.push({ id, name: kind, path, parentPath, parentId, depth, kind, type: type ?? 'unknown', required, hasChildren: hasChildren(type) })
+    visitType(type, path, id, depth + 1)
+  }
+
+  const visitField = (field: SchemaField, parentPath: string | undefined, parentId: number | undefined, depth: number) => {
+    const path = parentPath ? `${parentPath}.${field.name}` : field.name
+    nodes.push({
+      id: field.id,
+      name: field.name,
+      path,
+      parentPath,
+      parentId,
+      depth,
+      kind: 'field',
+      type: field.type,
+      required: field.required,
+      doc: field.doc,
+      hasChildren: hasChildren(field.type),
+    })
+    visitType(field.type, path, field.id, depth + 1)
+  }
+
+  schema.fields.forEach((field) => visitField(field, undefined, undefined, 0))
+  return nodes
+}
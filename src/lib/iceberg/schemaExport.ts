@@ -0,0 +1,650 @@
+import { findFieldById } from '@/lib/iceberg/schema'
+import { parseTransform } from '@/lib/iceberg/transforms'
+import type { NestedType, PartitionSpec, Schema, SchemaField, SortOrder } from '@/types/iceberg'
+
+export type SchemaExportFormat = 'spark' | 'trino' | 'duckdb' | 'avro' | 'arrow' | 'json-schema' | 'pyiceberg'
+
+export const SCHEMA_EXPORT_FORMATS: Array<{ id: SchemaExportFormat; label: string; language: string; extension: string }> = [
+  { id: 'spark', label: 'Spark SQL', language: 'sql', extension: 'sql' },
+  { id: 'trino', label: 'Trino', language: 'sql', extension: 'sql' },
+  { id: 'duckdb', label: 'DuckDB', language: 'sql', extension: 'sql' },
+  { id: 'avro', label: 'Avro schema', language: 'json', extension: 'avsc' },
+  { id: 'arrow', label: 'Arrow (pyarrow)', language: 'python', extension: 'py' },
+  { id: 'json-schema', label: 'JSON Schema', language: 'json', extension: 'json' },
+  { id: 'pyiceberg', label: 'PyIceberg', language: 'python', extension: 'py' },
+]
+
+export interface SchemaExportOptions {
+  namespace: string
+  table: string
+  schema: Schema
+  spec?: PartitionSpec
+  sortOrder?: SortOrder
+  formatVersion?: number
+}
+
+type IcebergType = SchemaField['type']
+
+interface Primitive {
+  name: string
+  precision?: number
+  scale?: number
+  length?: number
+}
+
+function parsePrimitive(type: string): Primitive {
+  const decimal = type.match(/^decimal\((\d+),\s*(\d+)\)$/)
+  if (decimal) return { name: 'decimal', precision: Number(decimal[1]), scale: Number(decimal[2]) }
+  const fixed = type.match(/^fixed\[(\d+)\]$/)
+  if (fixed) return { name: 'fixed', length: Number(fixed[1]) }
+  return { name: type }
+}
+
+function indent(text: string, spaces = 2): string {
+  const pad = ' '.repeat(spaces)
+  return text.split('\n').map((line) => (line ? pad + line : line)).join('\n')
+}
+
+/**
+ * Resolve the column path a partition or sort field reads from; null when the
+ * source column isn't part of the exported schema
+ */
+function sourcePath(schema: Schema, sourceId: number): string | null {
+  return findFieldById(schema, sourceId)?.path ?? null
+}
+
+interface SqlDialect {
+  quote: (name: string) => string
+  string: (value: string) => string
+  type: (type: IcebergType) => string
+  // Whether columns take an inline COMMENT clause
+  columnComments: boolean
+  // Whether nested struct fields can carry NOT NULL and COMMENT
+  nestedConstraints: boolean
+}
+
+const sparkDialect: SqlDialect = {
+  quote: (name) => `\`${name.replace(/`/g, '``')}\``,
+  string: (value) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`,
+  columnComments: true,
+  nestedConstraints: true,
+  type: (type) => {
+    if (typeof type !== 'string') return sqlNestedType(sparkDialect, type)
+    const p = parsePrimitive(type)
+    switch (p.name) {
+      case 'boolean': return 'BOOLEAN'
+      case 'int': return 'INT'
+      case 'long': return 'BIGINT'
+      case 'float': return 'FLOAT'
+      case 'double': return 'DOUBLE'
+      case 'decimal': return `DECIMAL(${p.precision}, ${p.scale})`
+      case 'date': return 'DATE'
+      case 'timestamp':
+      case 'timestamp_ns': return 'TIMESTAMP_NTZ'
+      case 'timestamptz':
+      case 'timestamptz_ns': return 'TIMESTAMP'
+      case 'string':
+      case 'uuid':
+      case 'time': return 'STRING'
+      case 'fixed':
+      case 'binary': return 'BINARY'
+      default: return type.toUpperCase()
+    }
+  },
+}
+
+const trinoDialect: SqlDialect = {
+  quote: (name) => `"${name.replace(/"/g, '""')}"`,
+  string: (value) => `'${value.replace(/'/g, "''")}'`,
+  columnComments: true,
+  nestedConstraints: false,
+  type: (type) => {
+    if (typeof type !== 'string') return sqlNestedType(trinoDialect, type)
+    const p = parsePrimitive(type)
+    switch (p.name) {
+      case 'boolean': return 'BOOLEAN'
+      case 'int': return 'INTEGER'
+      case 'long': return 'BIGINT'
+      case 'float': return 'REAL'
+      case 'double': return 'DOUBLE'
+      case 'decimal': return `DECIMAL(${p.precision}, ${p.scale})`
+      case 'date': return 'DATE'
+      case 'time': return 'TIME(6)'
+      case 'timestamp': return 'TIMESTAMP(6)'
+      case 'timestamptz': return 'TIMESTAMP(6) WITH TIME ZONE'
+      case 'timestamp_ns': return 'TIMESTAMP(9)'
+      case 'timestamptz_ns': return 'TIMESTAMP(9) WITH TIME ZONE'
+      case 'string': return 'VARCHAR'
+      case 'uuid': return 'UUID'
+      case 'fixed':
+      case 'binary': return 'VARBINARY'
+      default: return type.toUpperCase()
+    }
+  },
+}
+
+const duckdbDialect: SqlDialect = {
+  quote: (name) => `"${name.replace(/"/g, '""')}"`,
+  string: (value) => `'${value.replace(/'/g, "''")}'`,
+  columnComments: false,
+  nestedConstraints: false,
+  type: (type) => {
+    if (typeof type !== 'string') return sqlNestedType(duckdbDialect, type)
+    const p = parsePrimitive(type)
+    switch (p.name) {
+      case 'boolean': return 'BOOLEAN'
+      case 'int': return 'INTEGER'
+      case 'long': return 'BIGINT'
+      case 'float': return 'FLOAT'
+      case 'double': return 'DOUBLE'
+      case 'decimal': return `DECIMAL(${p.precision}, ${p.scale})`
+      case 'date': return 'DATE'
+      case 'time': return 'TIME'
+      case 'timestamp': return 'TIMESTAMP'
+      case 'timestamptz': return 'TIMESTAMPTZ'
+      case 'timestamp_ns':
+      case 'timestamptz_ns': return 'TIMESTAMP_NS'
+      case 'string': return 'VARCHAR'
+      case 'uuid': return 'UUID'
+      case 'fixed':
+      case 'binary': return 'BLOB'
+      default: return type.toUpperCase()
+    }
+  },
+}
+
+function sqlNestedType(dialect: SqlDialect, type: NestedType): string {
+  const spark = dialect === sparkDialect
+  if (type.type === 'list') {
+    const element = dialect.type(type.element ?? 'string')
+    return dialect === duckdbDialect ? `${element}[]` : spark ? `ARRAY<${element}>` : `ARRAY(${element})`
+  }
+  if (type.type === 'map') {
+    const key = dialect.type(type.key ?? 'string')
+    const value = dialect.type(type.value ?? 'string')
+    return spark ? `MAP<${key}, ${value}>` : `MAP(${key}, ${value})`
+  }
+
+  const fields = (type.fields || []).map((field) => {
+    if (dialect.nestedConstraints) return `${dialect.quote(field.name)}: ${sqlColumnSuffix(dialect, field)}`
+    return `${dialect.quote(field.name)} ${dialect.type(field.type)}`
+  })
+  if (spark) return `STRUCT<${fields.join(', ')}>`
+  return dialect === trinoDialect ? `ROW(${fields.join(', ')})` : `STRUCT(${fields.join(', ')})`
+}
+
+function sqlColumnSuffix(dialect: SqlDialect, field: SchemaField): string {
+  let column = dialect.type(field.type)
+  if (field.required) column += ' NOT NULL'
+  if (field.doc && dialect.columnComments) column += ` COMMENT ${dialect.string(field.doc)}`
+  return column
+}
+
+function sqlColumns(dialect: SqlDialect, schema: Schema): string {
+  return schema.fields
+    .map((field) => `${dialect.quote(field.name)} ${sqlColumnSuffix(dialect, field)}`)
+    .join(',\n')
+}
+
+function sqlTableName(dialect: SqlDialect, namespace: string, table: string): string {
+  return [...namespace.split('.'), table].map(dialect.quote).join('.')
+}
+
+function sqlPath(dialect: SqlDialect, path: string): string {
+  return path.split('.').map(dialect.quote).join('.')
+}
+
+/**
+ * Render a transform as Spark's partition/sort expression, e.g. `days(ts)` or `bucket(16, id)`
+ */
+function sparkTransform(transform: string, column: string): string | null {
+  const { name, param } = parseTransform(transform)
+  switch (name) {
+    case 'identity': return column
+    case 'bucket': return `bucket(${param}, ${column})`
+    case 'truncate': return `truncate(${param}, ${column})`
+    case 'year': return `years(${column})`
+    case 'month': return `months(${column})`
+    case 'day': return `days(${column})`
+    case 'hour': return `hours(${column})`
+    default: return null
+  }
+}
+
+/**
+ * Render a transform as a Trino `partitioning` entry, e.g. `day(ts)` or `bucket(id, 16)`
+ */
+function trinoTransform(transform: string, column: string): string | null {
+  const { name, param } = parseTransform(transform)
+  switch (name) {
+    case 'identity': return column
+    case 'bucket': return `bucket(${column}, ${param})`
+    case 'truncate': return `truncate(${column}, ${param})`
+    case 'year':
+    case 'month':
+    case 'day':
+    case 'hour': return `${name}(${column})`
+    default: return null
+  }
+}
+
+function sortDirection(field: SortOrder['fields'][number]): string {
+  return `${field.direction.toUpperCase()} NULLS ${field['null-order'] === 'nulls-first' ? 'FIRST' : 'LAST'}`
+}
+
+function toSparkSql({ namespace, table, schema, spec, sortOrder, formatVersion }: SchemaExportOptions): string {
+  const d = sparkDialect
+  const tableName = sqlTableName(d, namespace, table)
+  const lines = [`CREATE TABLE ${tableName} (`, indent(sqlColumns(d, schema)), ')', 'USING iceberg']
+
+  const partitions = (spec?.fields || [])
+    .map((field) => {
+      const path = sourcePath(schema, field['source-id'])
+      return path ? sparkTransform(field.transform, sqlPath(d, path)) : null
+    })
+    .filter((expr): expr is string => !!expr)
+  if (partitions.length > 0) lines.push(`PARTITIONED BY (${partitions.join(', ')})`)
+  if (formatVersion) lines.push(`TBLPROPERTIES ('format-version' = '${formatVersion}')`)
+
+  let sql = lines.join('\n') + ';'
+
+  // Sort orders need the Iceberg SQL extensions; CREATE TABLE has no clause for them
+  const sorts = (sortOrder?.fields || [])
+    .map((field) => {
+      const path = sourcePath(schema, field['source-id'])
+      const expr = path ? sparkTransform(field.transform, sqlPath(d, path)) : null
+      return expr ? `${expr} ${sortDirection(field)}` : null
+    })
+    .filter((expr): expr is string => !!expr)
+  if (sorts.length > 0) {
+    sql += `\n\nALTER TABLE ${tableName} WRITE ORDERED BY ${sorts.join(', ')};`
+  }
+  return sql
+}
+
+function toTrinoSql({ namespace, table, schema, spec, sortOrder, formatVersion }: SchemaExportOptions): string {
+  const d = trinoDialect
+  const properties: string[] = ["format = 'PARQUET'"]
+  if (formatVersion) properties.push(`format_version = ${formatVersion}`)
+
+  const partitions = (spec?.fields || [])
+    .map((field) => {
+      const path = sourcePath(schema, field['source-id'])
+      return path ? trinoTransform(field.transform, path) : null
+    })
+    .filter((expr): expr is string => !!expr)
+  if (partitions.length > 0) {
+    properties.push(`partitioning = ARRAY[${partitions.map(d.string).join(', ')}]`)
+  }
+
+  // Trino can only sort by plain columns
+  const sorts = (sortOrder?.fields || [])
+    .map((field) => {
+      const path = field.transform === 'identity' ? sourcePath(schema, field['source-id']) : null
+      return path ? `${path} ${sortDirection(field)}` : null
+    })
+    .filter((expr): expr is string => !!expr)
+  if (sorts.length > 0) {
+    properties.push(`sorted_by = ARRAY[${sorts.map(d.string).join(', ')}]`)
+  }
+
+  return [
+    `CREATE TABLE ${sqlTableName(d, namespace, table)} (`,
+    indent(sqlColumns(d, schema)),
+    ')',
+    'WITH (',
+    indent(properties.join(',\n')),
+    ');',
+  ].join('\n')
+}
+
+function toDuckDbSql({ namespace, table, schema, spec, sortOrder }: SchemaExportOptions): string {
+  const d = duckdbDialect
+  const sql = [`CREATE TABLE ${sqlTableName(d, namespace, table)} (`, indent(sqlColumns(d, schema)), ');'].join('\n')
+
+  // DuckDB's CREATE TABLE has no clauses for Iceberg partitioning or sort order, so record them for reference
+  const notes: string[] = []
+  const partitions = (spec?.fields || [])
+    .map((field) => {
+      const path = sourcePath(schema, field['source-id'])
+      return path ? `${field.transform}(${path})` : null
+    })
+    .filter((expr): expr is string => !!expr)
+  if (partitions.length > 0) notes.push(`-- Partitioned by: ${partitions.join(', ')}`)
+
+  const sorts = (sortOrder?.fields || [])
+    .map((field) => {
+      const path = sourcePath(schema, field['source-id'])
+      return path ? `${field.transform}(${path}) ${sortDirection(field)}` : null
+    })
+    .filter((expr): expr is string => !!expr)
+  if (sorts.length > 0) notes.push(`-- Sorted by: ${sorts.join(', ')}`)
+
+  return notes.length > 0 ? `${notes.join('\n')}\n${sql}` : sql
+}
+
+/**
+ * Convert to an Avro schema the way Iceberg writes its own data files: optional
+ * values are unions with null, and every field keeps its Iceberg `field-id`.
+ */
+function avroType(type: IcebergType, recordName: string): unknown {
+  if (typeof type !== 'string') {
+    if (type.type === 'struct') return avroRecord(type.fields || [], recordName)
+    if (type.type === 'list') {
+      const element = avroType(type.element ?? 'string', `r${type['element-id']}`)
+      return {
+        type: 'array',
+        items: type['element-required'] ? element : ['null', element],
+        'element-id': type['element-id'],
+      }
+    }
+    const value = avroType(type.value ?? 'string', `r${type['value-id']}`)
+    const optionalValue = type['value-required'] ? value : ['null', value]
+    if (type.key === 'string') {
+      return { type: 'map', values: optionalValue, 'key-id': type['key-id'], 'value-id': type['value-id'] }
+    }
+    // Avro maps only allow string keys, so other keys become an array of key/value records
+    return {
+      type: 'array',
+      logicalType: 'map',
+      items: {
+        type: 'record',
+        name: `k${type['key-id']}_v${type['value-id']}`,
+        fields: [
+          { name: 'key', type: avroType(type.key ?? 'string', `r${type['key-id']}`), 'field-id': type['key-id'] },
+          { name: 'value', type: optionalValue, 'field-id': type['value-id'] },
+        ],
+      },
+    }
+  }
+
+  const p = parsePrimitive(type)
+  switch (p.name) {
+    case 'boolean':
+    case 'int':
+    case 'long':
+    case 'float':
+    case 'double':
+    case 'string':
+      return p.name
+    case 'binary':
+      return 'bytes'
+    case 'decimal':
+      return { type: 'bytes', logicalType: 'decimal', precision: p.precision, scale: p.scale }
+    case 'date':
+      return { type: 'int', logicalType: 'date' }
+    case 'time':
+      return { type: 'long', logicalType: 'time-micros' }
+    case 'timestamp':
+      return { type: 'long', logicalType: 'timestamp-micros', 'adjust-to-utc': false }
+    case 'timestamptz':
+      return { type: 'long', logicalType: 'timestamp-micros', 'adjust-to-utc': true }
+    case 'timestamp_ns':
+      return { type: 'long', logicalType: 'timestamp-nanos', 'adjust-to-utc': false }
+    case 'timestamptz_ns':
+      return { type: 'long', logicalType: 'timestamp-nanos', 'adjust-to-utc': true }
+    case 'uuid':
+      return { type: 'fixed', name: `${recordName}_uuid`, size: 16, logicalType: 'uuid' }
+    case 'fixed':
+      return { type: 'fixed', name: `${recordName}_fixed`, size: p.length }
+    default:
+      return type
+  }
+}
+
+function avroRecord(fields: SchemaField[], name: string): unknown {
+  return {
+    type: 'record',
+    name,
+    fields: fields.map((field) => {
+      const type = avroType(field.type, `r${field.id}`)
+      return {
+        name: field.name,
+        type: field.required ? type : ['null', type],
+        ...(field.required ? {} : { default: null }),
+        ...(field.doc ? { doc: field.doc } : {}),
+        'field-id': field.id,
+      }
+    }),
+  }
+}
+
+function toAvro({ table, schema }: SchemaExportOptions): string {
+  const name = table.replace(/[^A-Za-z0-9_]/g, '_').replace(/^(?=\d)/, '_')
+  return JSON.stringify(avroRecord(schema.fields, name), null, 2)
+}
+
+function arrowType(type: IcebergType): string {
+  if (typeof type !== 'string') {
+    if (type.type === 'struct') {
+      return `pa.struct([\n${indent((type.fields || []).map(arrowField).join(',\n'), 4)},\n])`
+    }
+    if (type.type === 'list') {
+      return `pa.list_(pa.field("element", ${arrowType(type.element ?? 'string')}, nullable=${type['element-required'] ? 'False' : 'True'}))`
+    }
+    return `pa.map_(${arrowType(type.key ?? 'string')}, ${arrowType(type.value ?? 'string')})`
+  }
+
+  const p = parsePrimitive(type)
+  switch (p.name) {
+    case 'boolean': return 'pa.bool_()'
+    case 'int': return 'pa.int32()'
+    case 'long': return 'pa.int64()'
+    case 'float': return 'pa.float32()'
+    case 'double': return 'pa.float64()'
+    case 'decimal': return `pa.decimal128(${p.precision}, ${p.scale})`
+    case 'date': return 'pa.date32()'
+    case 'time': return 'pa.time64("us")'
+    case 'timestamp': return 'pa.timestamp("us")'
+    case 'timestamptz': return 'pa.timestamp("us", tz="UTC")'
+    case 'timestamp_ns': return 'pa.timestamp("ns")'
+    case 'timestamptz_ns': return 'pa.timestamp("ns", tz="UTC")'
+    case 'string': return 'pa.large_string()'
+    case 'uuid': return 'pa.binary(16)'
+    case 'fixed': return `pa.binary(${p.length})`
+    case 'binary': return 'pa.large_binary()'
+    default: return `pa.null()  # unsupported type: ${type}`
+  }
+}
+
+function arrowField(field: SchemaField): string {
+  return `pa.field(${JSON.stringify(field.name)}, ${arrowType(field.type)}, nullable=${field.required ? 'False' : 'True'}, metadata={"PARQUET:field_id": "${field.id}"})`
+}
+
+function toArrow({ schema }: SchemaExportOptions): string {
+  return `import pyarrow as pa\n\nschema = pa.schema([\n${indent(schema.fields.map(arrowField).join(',\n'), 4)},\n])`
+}
+
+function jsonSchemaType(type: IcebergType): Record<string, unknown> {
+  if (typeof type !== 'string') {
+    if (type.type === 'struct') return jsonSchemaObject(type.fields || [])
+    if (type.type === 'list') {
+      return { type: 'array', items: nullable(jsonSchemaType(type.element ?? 'string'), !!type['element-required']) }
+    }
+    const values = nullable(jsonSchemaType(type.value ?? 'string'), !!type['value-required'])
+    return type.key === 'string'
+      ? { type: 'object', additionalProperties: values }
+      : { type: 'array', items: { type: 'object', properties: { key: jsonSchemaType(type.key ?? 'string'), value: values }, required: ['key'] } }
+  }
+
+  const p = parsePrimitive(type)
+  switch (p.name) {
+    case 'boolean': return { type: 'boolean' }
+    case 'int': return { type: 'integer', minimum: -2147483648, maximum: 2147483647 }
+    case 'long': return { type: 'integer' }
+    case 'float':
+    case 'double': return { type: 'number' }
+    // Decimals are strings so they don't lose precision in JSON parsers
+    case 'decimal': return { type: 'string', pattern: '^-?\\d+(\\.\\d+)?$', description: `decimal(${p.precision}, ${p.scale})` }
+    case 'date': return { type: 'string', format: 'date' }
+    case 'time': return { type: 'string', format: 'time' }
+    case 'timestamp':
+    case 'timestamptz':
+    case 'timestamp_ns':
+    case 'timestamptz_ns': return { type: 'string', format: 'date-time' }
+    case 'string': return { type: 'string' }
+    case 'uuid': return { type: 'string', format: 'uuid' }
+    case 'fixed':
+    case 'binary': return { type: 'string', contentEncoding: 'base64' }
+    default: return {}
+  }
+}
+
+function nullable(schema: Record<string, unknown>, required: boolean): Record<string, unknown> {
+  if (required) return schema
+  return typeof schema.type === 'string' ? { ...schema, type: [schema.type, 'null'] } : { anyOf: [schema, { type: 'null' }] }
+}
+
+function jsonSchemaObject(fields: SchemaField[]): Record<string, unknown> {
+  const properties: Record<string, unknown> = {}
+  for (const field of fields) {
+    const property = nullable(jsonSchemaType(field.type), field.required)
+    properties[field.name] = field.doc ? { ...property, description: field.doc } : property
+  }
+  const required = fields.filter((f) => f.required).map((f) => f.name)
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 ? { required } : {}),
+    additionalProperties: false,
+  }
+}
+
+function toJsonSchema({ namespace, table, schema }: SchemaExportOptions): string {
+  return JSON.stringify(
+    {
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      title: `${namespace}.${table}`,
+      ...jsonSchemaObject(schema.fields),
+    },
+    null,
+    2
+  )
+}
+
+function pyIcebergType(type: IcebergType, imports: Set<string>): string {
+  const use = (name: string) => {
+    imports.add(name)
+    return name
+  }
+
+  if (typeof type !== 'string') {
+    if (type.type === 'struct') {
+      use('StructType')
+      return `StructType(\n${indent((type.fields || []).map((f) => pyIcebergField(f, imports)).join(',\n'), 4)},\n)`
+    }
+    if (type.type === 'list') {
+      return `${use('ListType')}(element_id=${type['element-id']}, element_type=${pyIcebergType(type.element ?? 'string', imports)}, element_required=${type['element-required'] ? 'True' : 'False'})`
+    }
+    return `${use('MapType')}(key_id=${type['key-id']}, key_type=${pyIcebergType(type.key ?? 'string', imports)}, value_id=${type['value-id']}, value_type=${pyIcebergType(type.value ?? 'string', imports)}, value_required=${type['value-required'] ? 'True' : 'False'})`
+  }
+
+  const p = parsePrimitive(type)
+  switch (p.name) {
+    case 'boolean': return `${use('BooleanType')}()`
+    case 'int': return `${use('IntegerType')}()`
+    case 'long': return `${use('LongType')}()`
+    case 'float': return `${use('FloatType')}()`
+    case 'double': return `${use('DoubleType')}()`
+    case 'decimal': return `${use('DecimalType')}(${p.precision}, ${p.scale})`
+    case 'date': return `${use('DateType')}()`
+    case 'time': return `${use('TimeType')}()`
+    case 'timestamp': return `${use('TimestampType')}()`
+    case 'timestamptz': return `${use('TimestamptzType')}()`
+    case 'timestamp_ns': return `${use('TimestampNanoType')}()`
+    case 'timestamptz_ns': return `${use('TimestamptzNanoType')}()`
+    case 'string': return `${use('StringType')}()`
+    case 'uuid': return `${use('UUIDType')}()`
+    case 'fixed': return `${use('FixedType')}(${p.length})`
+    case 'binary': return `${use('BinaryType')}()`
+    default: return `${use('UnknownType')}()`
+  }
+}
+
+function pyIcebergField(field: SchemaField, imports: Set<string>): string {
+  imports.add('NestedField')
+  const args = [
+    `field_id=${field.id}`,
+    `name=${JSON.stringify(field.name)}`,
+    `field_type=${pyIcebergType(field.type, imports)}`,
+    `required=${field.required ? 'True' : 'False'}`,
+  ]
+  if (field.doc) args.push(`doc=${JSON.stringify(field.doc)}`)
+  return `NestedField(${args.join(', ')})`
+}
+
+function pyIcebergTransform(transform: string): string {
+  const { name, param } = parseTransform(transform)
+  switch (name) {
+    case 'identity': return 'IdentityTransform()'
+    case 'bucket': return `BucketTransform(num_buckets=${param})`
+    case 'truncate': return `TruncateTransform(width=${param})`
+    case 'year': return 'YearTransform()'
+    case 'month': return 'MonthTransform()'
+    case 'day': return 'DayTransform()'
+    case 'hour': return 'HourTransform()'
+    default: return 'VoidTransform()'
+  }
+}
+
+function toPyIceberg({ schema, spec, sortOrder }: SchemaExportOptions): string {
+  const typeImports = new Set<string>()
+  const fields = schema.fields.map((field) => pyIcebergField(field, typeImports))
+  const schemaArgs = [...fields, `schema_id=${schema['schema-id']}`]
+  if (schema['identifier-field-ids']?.length) {
+    schemaArgs.push(`identifier_field_ids=[${schema['identifier-field-ids'].join(', ')}]`)
+  }
+
+  const transformImports = new Set<string>()
+  const blocks = [`schema = Schema(\n${indent(schemaArgs.join(',\n'), 4)},\n)`]
+
+  if (spec && spec.fields.length > 0) {
+    const partitionFields = spec.fields.map((field) => {
+      const transform = pyIcebergTransform(field.transform)
+      transformImports.add(transform.slice(0, transform.indexOf('(')))
+      return `PartitionField(source_id=${field['source-id']}, field_id=${field['field-id']}, transform=${transform}, name=${JSON.stringify(field.name)})`
+    })
+    blocks.push(`partition_spec = PartitionSpec(\n${indent([...partitionFields, `spec_id=${spec['spec-id']}`].join(',\n'), 4)},\n)`)
+  }
+
+  if (sortOrder && sortOrder.fields.length > 0) {
+    const sortFields = sortOrder.fields.map((field) => {
+      const transform = pyIcebergTransform(field.transform)
+      transformImports.add(transform.slice(0, transform.indexOf('(')))
+      const direction = field.direction === 'desc' ? 'SortDirection.DESC' : 'SortDirection.ASC'
+      const nullOrder = field['null-order'] === 'nulls-last' ? 'NullOrder.NULLS_LAST' : 'NullOrder.NULLS_FIRST'
+      return `SortField(source_id=${field['source-id']}, transform=${transform}, direction=${direction}, null_order=${nullOrder})`
+    })
+    blocks.push(`sort_order = SortOrder(\n${indent([...sortFields, `order_id=${sortOrder['order-id']}`].join(',\n'), 4)},\n)`)
+  }
+
+  const imports = ['from pyiceberg.schema import Schema']
+  imports.push(`from pyiceberg.types import ${[...typeImports].sort().join(', ')}`)
+  if (spec && spec.fields.length > 0) imports.push('from pyiceberg.partitioning import PartitionField, PartitionSpec')
+  if (sortOrder && sortOrder.fields.length > 0) imports.push('from pyiceberg.table.sorting import NullOrder, SortDirection, SortField, SortOrder')
+  if (transformImports.size > 0) imports.push(`from pyiceberg.transforms import ${[...transformImports].sort().join(', ')}`)
+
+  return `${imports.join('\n')}\n\n${blocks.join('\n\n')}`
+}
+
+/**
+ * Render a table's schema, partition spec and sort order in another engine's DDL or an interchange format
+ */
+export function exportSchema(format: SchemaExportFormat, options: SchemaExportOptions): string {
+  switch (format) {
+    case 'spark':
+      return toSparkSql(options)
+    case 'trino':
+      return toTrinoSql(options)
+    case 'duckdb':
+      return toDuckDbSql(options)
+    case 'avro':
+      return toAvro(options)
+    case 'arrow':
+      return toArrow(options)
+    case 'json-schema':
+      return toJsonSchema(options)
+    case 'pyiceberg':
+      return toPyIceberg(options)
+  }
+}
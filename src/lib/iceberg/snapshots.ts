@@ -0,0 +1,160 @@
+import type { IcebergClient } from '@/lib/iceberg/client'
+import { readManifest, readManifestList } from '@/lib/iceberg/manifests'
+import { getAncestorIds } from '@/lib/iceberg/refs'
+import { compareSchemas, hasSchemaChanges, type SchemaChanges } from '@/lib/iceberg/schema'
+import { resolveStorageConfig } from '@/lib/iceberg/storage'
+import type { DataFile, LoadTableResult, ManifestFile, Snapshot, TableMetadata } from '@/types/iceberg'
+
+export interface SummaryDelta {
+  key: string
+  label: string
+  from: number | null
+  to: number | null
+  delta: number | null
+}
+
+export interface SnapshotComparison {
+  totals: SummaryDelta[]
+  fromSchemaId?: number
+  toSchemaId?: number
+  schemaChanges: SchemaChanges | null
+  // 'linear' when one snapshot is an ancestor of the other, 'diverged' when they sit on different branches
+  relation: 'linear' | 'diverged'
+  // Snapshots committed after the older snapshot, up to and including the newer one (linear history only)
+  between: Snapshot[]
+  partitions: string[]
+  changedPartitionCount: number
+}
+
+export interface SnapshotFileDiff {
+  added: DataFile[]
+  removed: DataFile[]
+  manifestsRead: number
+}
+
+export const OPERATION_COLORS: Record<string, string> = {
+  append: '#16a34a',
+  overwrite: '#ea580c',
+  delete: '#dc2626',
+  replace: '#2563eb',
+}
+
+/**
+ * Get the colour used for a snapshot operation in charts and graphs
+ */
+export function getOperationColor(operation: string | undefined): string {
+  return (operation && OPERATION_COLORS[operation]) || '#6b7280'
+}
+
+const SUMMARY_TOTALS: Array<[string, string]> = [
+  ['total-records', 'Records'],
+  ['total-files-size', 'Files size'],
+  ['total-data-files', 'Data files'],
+  ['total-delete-files', 'Delete files'],
+  ['total-position-deletes', 'Position deletes'],
+  ['total-equality-deletes', 'Equality deletes'],
+]
+
+// Per-partition summaries are written as `partitions.<partition path>` when write.summary.partition-limit is set
+const PARTITION_SUMMARY_PREFIX = 'partitions.'
+
+function summaryNumber(snapshot: Snapshot, key: string): number | null {
+  const value = snapshot.summary?.[key]
+  return value !== undefined && value !== '' && !isNaN(Number(value)) ? Number(value) : null
+}
+
+/**
+ * Compare two snapshots using only table metadata: summary totals, schema and partitions touched in between
+ */
+export function compareSnapshots(metadata: TableMetadata, from: Snapshot, to: Snapshot): SnapshotComparison {
+  const totals = SUMMARY_TOTALS.map(([key, label]) => {
+    const fromValue = summaryNumber(from, key)
+    const toValue = summaryNumber(to, key)
+    return {
+      key,
+      label,
+      from: fromValue,
+      to: toValue,
+      delta: fromValue !== null && toValue !== null ? toValue - fromValue : null,
+    }
+  })
+
+  const fromSchema = metadata.schemas.find((s) => s['schema-id'] === from['schema-id'])
+  const toSchema = metadata.schemas.find((s) => s['schema-id'] === to['schema-id'])
+  const schemaChanges = fromSchema && toSchema && fromSchema !== toSchema ? compareSchemas(fromSchema, toSchema) : null
+
+  // Work out which snapshots sit between the two, if they are on the same line of history
+  const [older, newer] = from['timestamp-ms'] <= to['timestamp-ms'] ? [from, to] : [to, from]
+  const newerAncestors = getAncestorIds(metadata, newer['snapshot-id'])
+  const olderIndex = newerAncestors.indexOf(older['snapshot-id'])
+  const byId = new Map((metadata.snapshots || []).map((s) => [s['snapshot-id'], s]))
+  const between = olderIndex >= 0
+    ? newerAncestors.slice(0, olderIndex).map((id) => byId.get(id)!).reverse()
+    : []
+
+  const partitions = new Set<string>()
+  let changedPartitionCount = 0
+  for (const snapshot of between) {
+    changedPartitionCount += summaryNumber(snapshot, 'changed-partition-count') || 0
+    Object.keys(snapshot.summary || {})
+      .filter((key) => key.startsWith(PARTITION_SUMMARY_PREFIX))
+      .forEach((key) => partitions.add(key.substring(PARTITION_SUMMARY_PREFIX.length)))
+  }
+
+  return {
+    totals,
+    fromSchemaId: from['schema-id'],
+    toSchemaId: to['schema-id'],
+    schemaChanges: hasSchemaChanges(schemaChanges) ? schemaChanges : null,
+    relation: olderIndex >= 0 ? 'linear' : 'diverged',
+    between,
+    partitions: [...partitions].sort(),
+    changedPartitionCount,
+  }
+}
+
+async function readLiveFiles(
+  client: IcebergClient,
+  tableData: LoadTableResult,
+  manifests: ManifestFile[]
+): Promise<Map<string, DataFile>> {
+  const files = new Map<string, DataFile>()
+  const entries = await Promise.all(
+    manifests.map((m) => readManifest(client, m.manifest_path, resolveStorageConfig(tableData, m.manifest_path)))
+  )
+  entries.flat()
+    .filter((entry) => entry.status !== 2) // deleted entries are tombstones, not live files
+    .forEach((entry) => files.set(entry.data_file.file_path, entry.data_file))
+  return files
+}
+
+/**
+ * List the exact data and delete files added and removed between two snapshots.
+ * Manifests shared by both manifest lists are skipped since their files are live in both.
+ */
+export async function diffSnapshotFiles(
+  client: IcebergClient,
+  tableData: LoadTableResult,
+  from: Snapshot,
+  to: Snapshot
+): Promise<SnapshotFileDiff> {
+  const [fromManifests, toManifests] = await Promise.all(
+    [from, to].map((s) => readManifestList(client, s['manifest-list'], resolveStorageConfig(tableData, s['manifest-list'])))
+  )
+
+  const fromPaths = new Set(fromManifests.map((m) => m.manifest_path))
+  const toPaths = new Set(toManifests.map((m) => m.manifest_path))
+  const fromOnly = fromManifests.filter((m) => !toPaths.has(m.manifest_path))
+  const toOnly = toManifests.filter((m) => !fromPaths.has(m.manifest_path))
+
+  const [fromFiles, toFiles] = await Promise.all([
+    readLiveFiles(client, tableData, fromOnly),
+    readLiveFiles(client, tableData, toOnly),
+  ])
+
+  return {
+    added: [...toFiles.values()].filter((file) => !fromFiles.has(file.file_path)),
+    removed: [...fromFiles.values()].filter((file) => !toFiles.has(file.file_path)),
+    manifestsRead: fromOnly.length + toOnly.length,
+  }
+}
@@ -0,0 +1,44 @@
+import { resolveSourceColumn, type SourceColumn } from '@/lib/iceberg/transforms'
+import type { SortField, SortOrder, TableMetadata } from '@/types/iceberg'
+
+export interface ResolvedSortField extends SortField {
+  source: SourceColumn | null
+}
+
+export interface ResolvedSortOrder extends Omit<SortOrder, 'fields'> {
+  fields: ResolvedSortField[]
+}
+
+/**
+ * List sort orders newest first, with each field's source column resolved
+ */
+export function getSortOrders(metadata: TableMetadata): ResolvedSortOrder[] {
+  return [...(metadata['sort-orders'] || [])]
+    .sort((a, b) => b['order-id'] - a['order-id'])
+    .map((order) => ({
+      ...order,
+      fields: order.fields.map((field) => ({ ...field, source: resolveSourceColumn(metadata, field['source-id']) })),
+    }))
+}
+
+/**
+ * Check whether new data is written without a sort order. Order 0 is reserved for "unsorted".
+ */
+export function isWrittenUnsorted(metadata: TableMetadata): boolean {
+  const defaultOrder = metadata['sort-orders']?.find((o) => o['order-id'] === metadata['default-sort-order-id'])
+  return !defaultOrder || defaultOrder.fields.length === 0
+}
+
+/**
+ * Render a sort order the way it would appear in an ORDER BY clause
+ */
+export function formatSortOrder(order: ResolvedSortOrder): string {
+  if (order.fields.length === 0) return 'unsorted'
+  return order.fields
+    .map((field) => {
+      const column = field.source?.name || `field ${field['source-id']}`
+      const expression = field.transform === 'identity' ? column : `${field.transform}(${column})`
+      return `${expression} ${field.direction.toUpperCase()} ${field['null-order'].replace('-', ' ').toUpperCase()}`
+    })
+    .join(', ')
+}
@@ -0,0 +1,32 @@
+import type { LoadTableResult } from '@/types/iceberg'
+
+/**
+ * Resolve the storage config to use for a file. Vended `storage-credentials`
+ * with the longest matching prefix win; otherwise fall back to the table config.
+ */
+export function resolveStorageConfig(result: LoadTableResult, uri: string): Record<string, string> {
+  const matching = (result['storage-credentials'] || [])
+    .filter((cred) => uri.startsWith(cred.prefix))
+    .sort((a, b) => b.prefix.length - a.prefix.length)
+
+  return { ...(result.config || {}), ...(matching[0]?.config || {}) }
+}
+
+/**
+ * Identify the credentials a loadTable result carries, so storage reads can be retried when they
+ * change (e.g. a cached result without credentials is replaced by the catalog's response)
+ */
+export function getStorageCredentialsKey(result: LoadTableResult): string {
+  return JSON.stringify([result.config || {}, result['storage-credentials'] || []])
+}
+
+/**
+ * Check whether a config carries credentials the worker can sign storage reads with
+ */
+export function hasStorageCredentials(config: Record<string, string>): boolean {
+  return (
+    !!config['s3.access-key-id'] ||
+    !!config['gcs.oauth2.token'] ||
+    Object.keys(config).some((key) => key.startsWith('adls.sas-token.'))
+  )
+}
@@ -0,0 +1,71 @@
+import { findFieldById, formatFieldType } from '@/lib/iceberg/schema'
+import type { TableMetadata } from '@/types/iceberg'
+
+export interface ParsedTransform {
+  name: string
+  param?: number
+}
+
+export interface SourceColumn {
+  name: string
+  type: string
+  // True when the column only exists in an older schema, i.e. it has since been dropped
+  dropped: boolean
+}
+
+/**
+ * Split a transform like `bucket[16]` into its name and parameter
+ */
+export function parseTransform(transform: string): ParsedTransform {
+  const match = transform.match(/^(\w+)\[(\d+)\]$/)
+  return match ? { name: match[1], param: Number(match[2]) } : { name: transform }
+}
+
+/**
+ * Explain what a partition or sort transform does in plain words
+ */
+export function describeTransform(transform: string): string {
+  const { name, param } = parseTransform(transform)
+  switch (name) {
+    case 'identity':
+      return 'Source value, unmodified'
+    case 'bucket':
+      return `Hash of the value into ${param} buckets`
+    case 'truncate':
+      return `Value truncated to width ${param}`
+    case 'year':
+      return 'Years since 1970'
+    case 'month':
+      return 'Months since 1970-01'
+    case 'day':
+      return 'Days since 1970-01-01'
+    case 'hour':
+      return 'Hours since 1970-01-01 00:00'
+    case 'void':
+      return 'Always null; the field was dropped from the spec'
+    default:
+      return 'Unknown transform'
+  }
+}
+
+/**
+ * Resolve a source-id to its column, preferring the current schema and falling back
+ * to older schemas for columns that have since been dropped
+ */
+export function resolveSourceColumn(metadata: TableMetadata, sourceId: number): SourceColumn | null {
+  const currentSchema = metadata.schemas.find((s) => s['schema-id'] === metadata['current-schema-id'])
+  const current = currentSchema && findFieldById(currentSchema, sourceId)
+  if (current) {
+    return { name: current.path, type: formatFieldType(current.field.type), dropped: false }
+  }
+
+  const olderSchemas = [...metadata.schemas].sort((a, b) => b['schema-id'] - a['schema-id'])
+  for (const schema of olderSchemas) {
+    const found = findFieldById(schema, sourceId)
+    if (found) {
+      return { name: found.path, type: formatFieldType(found.field.type), dropped: true }
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,74 @@
+import type { ViewMetadata, ViewVersion, SQLViewRepresentation } from '@/types/iceberg'
+
+export interface LineDiff {
+  type: 'same' | 'added' | 'removed'
+  text: string
+}
+
+/**
+ * Get the current version of a view
+ */
+export function getCurrentViewVersion(metadata: ViewMetadata): ViewVersion | null {
+  return metadata.versions.find((v) => v['version-id'] === metadata['current-version-id']) || null
+}
+
+/**
+ * Get the version that preceded the given one, by version id
+ */
+export function getPreviousViewVersion(metadata: ViewMetadata, version: ViewVersion): ViewVersion | null {
+  const older = metadata.versions
+    .filter((v) => v['version-id'] < version['version-id'])
+    .sort((a, b) => b['version-id'] - a['version-id'])
+  return older[0] || null
+}
+
+/**
+ * Get the SQL representations of a version, one per dialect
+ */
+export function getSqlRepresentations(version: ViewVersion): SQLViewRepresentation[] {
+  return version.representations.filter((r): r is SQLViewRepresentation => r.type === 'sql')
+}
+
+/**
+ * List every dialect used across all versions of a view
+ */
+export function getViewDialects(metadata: ViewMetadata): string[] {
+  const dialects = new Set<string>()
+  metadata.versions.forEach((v) => getSqlRepresentations(v).forEach((r) => dialects.add(r.dialect)))
+  return [...dialects].sort()
+}
+
+/**
+ * Line-based diff of two SQL strings using longest common subsequence
+ */
+export function diffLines(oldText: string, newText: string): LineDiff[] {
+  const a = oldText.split('\n')
+  const b = newText.split('\n')
+
+  // lcs[i][j] = length of LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const result: LineDiff[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'same', text: a[i] })
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: 'removed', text: a[i++] })
+    } else {
+      result.push({ type: 'added', text: b[j++] })
+    }
+  }
+  while (i < a.length) result.push({ type: 'removed', text: a[i++] })
+  while (j < b.length) result.push({ type: 'added', text: b[j++] })
+
+  return result
+}
@@ -0,0 +1,39 @@
+export interface FuzzyMatch {
+  score: number
+  // Positions in the text of the matched query characters, for highlighting
+  indices: number[]
+}
+
+const WORD_SEPARATORS = /[\s._\-/]/
+
+/**
+ * Match the query's characters in order anywhere in the text (case-insensitive).
+ * Consecutive characters, matches at word starts and shorter texts score higher;
+ * returns null when the text doesn't contain the query as a subsequence.
+ */
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const q = query.toLowerCase()
+  const t = text.toLowerCase()
+  if (!q) return { score: 0, indices: [] }
+
+  const indices: number[] = []
+  let score = 0
+  let from = 0
+  for (const char of q) {
+    const index = t.indexOf(char, from)
+    if (index === -1) return null
+
+    const previous = indices[indices.length - 1]
+    if (previous !== undefined && index === previous + 1) score += 5
+    if (index === 0 || WORD_SEPARATORS.test(t[index - 1])) score += 3
+    score -= Math.min(index - from, 5) * 0.5
+
+    indices.push(index)
+    from = index + 1
+  }
+
+  // Prefer exact substrings and shorter candidates
+  if (t.includes(q)) score += 10
+  score -= t.length * 0.05
+  return { score, indices }
+}
@@ -0,0 +1,38 @@
+import { clearCache } from '@/lib/iceberg/cache'
+
+/**
+ * Drop the metadata cached for the logged-in endpoint, warehouse and principal
+ */
+export async function clearSessionCache(): Promise<void> {
+  const sessionId = sessionStorage.getItem('iceberg-session-id')
+  if (!sessionId) return
+
+  await clearCache({
+    endpoint: sessionStorage.getItem('iceberg-endpoint') || '',
+    warehouse: sessionStorage.getItem('iceberg-warehouse') || undefined,
+    principal: sessionStorage.getItem('iceberg-principal') || sessionId,
+  })
+}
+
+/**
+ * End the worker session and clear everything kept in sessionStorage, along with this login's metadata cache
+ */
+export async function logout(): Promise<void> {
+  const sessionId = sessionStorage.getItem('iceberg-session-id')
+
+  try {
+    if (sessionId) {
+      await fetch('/api/auth/logout', {
+        method: 'POST',
+        headers: {
+          'X-Session-ID': sessionId,
+        },
+      })
+    }
+  } catch (error) {
+    console.error('Logout error:', error)
+  } finally {
+    await clearSessionCache()
+    sessionStorage.clear()
+  }
+}
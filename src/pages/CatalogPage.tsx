@@ -1,22 +1,45 @@
-import { useEffect, useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { useNavigate, useSearchParams } from 'react-router-dom'
-import { Folder, Table2 } from 'lucide-react'
+import { AlertCircle, BookOpen, Eye, Folder, Loader2, RefreshCw, Table2 } from 'lucide-react'
+import { DataDictionaryDialog } from '@/components/catalog/DataDictionaryDialog'
 import { LoadingScreen } from '@/components/catalog/LoadingScreen'
-import { useCatalog, type NamespaceNode } from '@/lib/context/CatalogContext'
+import { Button } from '@/components/ui/Button'
+import { useCatalog } from '@/lib/context/CatalogContext'
 import { getClient } from '@/lib/iceberg/client'
+import {
+  findNamespace,
+  getNamespaceLabel,
+  loadNamespaceTree,
+  retryFailedNamespaces,
+  type LoadProgress,
+} from '@/lib/iceberg/namespaces'
 import { formatBytes, formatNumber } from '@/lib/iceberg/metrics'
+import { isAbortError } from '@/lib/iceberg/scheduler'
 
 export function CatalogPage() {
   const navigate = useNavigate()
   const [searchParams] = useSearchParams()
-  const { namespaces, setNamespaces, isLoaded, setIsLoaded, tableMetrics, addApiCall } = useCatalog()
+  const {
+    namespaces,
+    setNamespaces,
+    isLoaded,
+    setIsLoaded,
+    failedNamespaces,
+    setFailedNamespaces,
+    tableMetrics,
+    addApiCall,
+  } = useCatalog()
   const [isLoading, setIsLoading] = useState(!isLoaded)
   const [error, setError] = useState('')
+  const [showDictionary, setShowDictionary] = useState(false)
+  const [isRevalidating, setIsRevalidating] = useState(false)
+  const [retryProgress, setRetryProgress] = useState<LoadProgress | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
 
   // Get selected namespace from URL
   const selectedNamespace = searchParams.get('namespace')
 
-  const [loadProgress, setLoadProgress] = useState({
+  const [loadProgress, setLoadProgress] = useState<LoadProgress>({
     current: 0,
     total: 0,
     message: 'Initializing...',
@@ -30,64 +53,35 @@ export function CatalogPage() {
     }
   }, [isLoaded])
 
+  // Stop loading the catalog when leaving the page; it starts over on the next visit
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  const startLoad = () => {
+    abortRef.current?.abort()
+    const controller = new AbortController()
+    abortRef.current = controller
+    return controller.signal
+  }
+
   const loadCatalogRecursively = async () => {
+    const signal = startLoad()
     try {
-      const client = getClient(addApiCall)
-
-      // Step 1: Load all namespaces
-      setLoadProgress({ current: 0, total: 1, message: 'Loading namespaces...' })
-      const namespacesResult = await client.listNamespaces()
-      const totalNamespaces = namespacesResult.namespaces.length
-
-      setLoadProgress({
-        current: 1,
-        total: totalNamespaces + 1,
-        message: `Found ${totalNamespaces} namespaces`,
-      })
-
-      // Step 2: Load tables for each namespace
-      const nodes: NamespaceNode[] = []
-
-      for (let i = 0; i < namespacesResult.namespaces.length; i++) {
-        const ns = namespacesResult.namespaces[i]
-        const displayName = ns.join('.')
-
-        setLoadProgress({
-          current: i + 1,
-          total: totalNamespaces + 1,
-          message: `Loading tables from ${displayName}...`,
-        })
-
-        try {
-          const tablesResult = await client.listTables(ns)
-          nodes.push({
-            namespace: ns,
-            displayName,
-            tables: tablesResult.identifiers,
-            isExpanded: false,
-          })
-        } catch (err) {
-          console.error(`Failed to load tables for ${displayName}:`, err)
-          // Still add the namespace even if tables failed to load
-          nodes.push({
-            namespace: ns,
-            displayName,
-            tables: [],
-            isExpanded: false,
-          })
-        }
-      }
+      const client = getClient(addApiCall, { signal })
 
-      setLoadProgress({
-        current: totalNamespaces + 1,
-        total: totalNamespaces + 1,
-        message: 'Complete!',
-      })
+      // Walk every level of the namespace hierarchy and load its tables
+      const { nodes, failed } = await loadNamespaceTree(client, setLoadProgress, signal)
 
       setNamespaces(nodes)
+      setFailedNamespaces(failed)
       setIsLoaded(true)
       setIsLoading(false)
+
+      // Some of the tree came from the metadata cache; refresh it from the catalog behind the scenes
+      if (client.cacheHits > 0) {
+        revalidateCatalog()
+      }
     } catch (err) {
+      if (isAbortError(err)) return
       setError(err instanceof Error ? err.message : 'Failed to load catalog')
       if (err instanceof Error && err.message.includes('Not authenticated')) {
         navigate('/')
@@ -96,6 +90,44 @@ export function CatalogPage() {
     }
   }
 
+  const revalidateCatalog = async () => {
+    const signal = startLoad()
+    setIsRevalidating(true)
+    try {
+      const { nodes, failed } = await loadNamespaceTree(getClient(addApiCall, { cachePolicy: 'network', signal }), undefined, signal)
+      setNamespaces(nodes)
+      setFailedNamespaces(failed)
+    } catch (err) {
+      // Keep showing the cached tree; the next load will try again
+      if (!isAbortError(err)) {
+        console.warn('Failed to revalidate cached catalog:', err)
+      }
+    } finally {
+      setIsRevalidating(false)
+    }
+  }
+
+  const handleRetryFailed = async () => {
+    const signal = startLoad()
+    try {
+      const { nodes, failed } = await retryFailedNamespaces(
+        getClient(addApiCall, { cachePolicy: 'network', signal }),
+        namespaces,
+        failedNamespaces,
+        setRetryProgress,
+        signal
+      )
+      setNamespaces(nodes)
+      setFailedNamespaces(failed)
+    } catch (err) {
+      if (!isAbortError(err)) {
+        setError(err instanceof Error ? err.message : 'Failed to reload namespaces')
+      }
+    } finally {
+      setRetryProgress(null)
+    }
+  }
+
   const handleTableClick = (namespace: string[], tableName: string) => {
     const path = `/table/${namespace.join('.')}/${tableName}`
     navigate(path)
@@ -115,32 +147,107 @@ export function CatalogPage() {
 
   // Get tables for selected namespace
   const selectedNs = selectedNamespace
-    ? namespaces.find(ns => ns.displayName === selectedNamespace)
+    ? findNamespace(namespaces, selectedNamespace)
     : null
 
   const tablesToShow = selectedNs?.tables || []
+  const viewsToShow = selectedNs?.views || []
+  const childNamespaces = selectedNs?.children || []
 
   return (
     <div className="flex flex-col h-full overflow-hidden">
+          {isRevalidating && (
+            <div className="flex items-center gap-2 px-4 py-1 text-xs text-muted-foreground bg-accent/40 border-b">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Showing cached catalog, checking for changes...
+            </div>
+          )}
+          {failedNamespaces.length > 0 && (
+            <div className="flex items-start gap-3 px-4 py-2 text-sm text-amber-900 bg-amber-50 border-b border-amber-200">
+              <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <span className="font-medium">
+                  {failedNamespaces.length} {failedNamespaces.length === 1 ? 'namespace' : 'namespaces'} failed to load:
+                </span>{' '}
+                {failedNamespaces.map((f, i) => (
+                  <span key={f.namespace.join('.')} title={f.error}>
+                    {i > 0 && ', '}
+                    <code className="text-xs">{f.namespace.join('.')}</code>
+                  </span>
+                ))}
+                {retryProgress && (
+                  <div className="text-xs text-amber-800 mt-1">
+                    {retryProgress.message} ({retryProgress.current} of {retryProgress.total})
+                  </div>
+                )}
+              </div>
+              <Button variant="outline" size="sm" onClick={handleRetryFailed} disabled={retryProgress !== null}>
+                {retryProgress ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+                Retry failed
+              </Button>
+            </div>
+          )}
           {!selectedNamespace ? (
             <div className="flex-1 flex items-center justify-center text-muted-foreground">
               <div className="text-center">
                 <Folder className="h-12 w-12 mx-auto mb-3 text-muted-foreground/50" />
                 <p>Select a namespace to view tables</p>
+                {namespaces.length > 0 && (
+                  <Button variant="outline" size="sm" className="mt-4" onClick={() => setShowDictionary(true)}>
+                    <BookOpen className="h-4 w-4 mr-2" />
+                    Export catalog data dictionary
+                  </Button>
+                )}
               </div>
             </div>
           ) : (
             <>
               <div className="border-b bg-white p-4">
-                <h1 className="text-2xl font-light text-foreground">
-                  {selectedNamespace}
-                </h1>
+                <div className="flex items-start justify-between gap-4">
+                  <h1 className="text-2xl font-light text-foreground">
+                    {selectedNamespace}
+                  </h1>
+                  {selectedNs && (
+                    <Button variant="outline" size="sm" onClick={() => setShowDictionary(true)}>
+                      <BookOpen className="h-4 w-4 mr-2" />
+                      Data dictionary
+                    </Button>
+                  )}
+                </div>
                 <p className="text-sm text-muted-foreground mt-1">
                   {tablesToShow.length} {tablesToShow.length === 1 ? 'table' : 'tables'}
+                  {viewsToShow.length > 0 && (
+                    <> · {viewsToShow.length} {viewsToShow.length === 1 ? 'view' : 'views'}</>
+                  )}
+                  {childNamespaces.length > 0 && (
+                    <> · {childNamespaces.length} {childNamespaces.length === 1 ? 'namespace' : 'namespaces'}</>
+                  )}
                 </p>
               </div>
 
               <div className="flex-1 overflow-auto p-6 bg-accent/20">
+                {childNamespaces.length > 0 && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 max-w-7xl mb-6">
+                    {childNamespaces.map((child) => (
+                      <button
+                        key={child.displayName}
+                        onClick={() => navigate(`/catalog?namespace=${child.displayName}`)}
+                        className="bg-white border rounded-lg p-4 hover:shadow-md hover:border-primary/50 transition-all text-left"
+                      >
+                        <div className="flex items-start gap-3">
+                          <Folder className="h-5 w-5 text-primary flex-shrink-0 mt-0.5" />
+                          <div className="flex-1 min-w-0">
+                            <div className="font-medium text-foreground truncate">{getNamespaceLabel(child)}</div>
+                            <div className="text-xs text-muted-foreground mt-1">
+                              {child.tables.length} {child.tables.length === 1 ? 'table' : 'tables'}
+                              {child.children.length > 0 && ` · ${child.children.length} ${child.children.length === 1 ? 'namespace' : 'namespaces'}`}
+                            </div>
+                          </div>
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                )}
                 {tablesToShow.length === 0 ? (
                   <div className="text-center py-12 text-muted-foreground">
                     No tables in this namespace
@@ -183,9 +290,37 @@ export function CatalogPage() {
                     })}
                   </div>
                 )}
+                {viewsToShow.length > 0 && (
+                  <>
+                    <h2 className="text-sm font-semibold text-muted-foreground mt-8 mb-3">VIEWS</h2>
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 max-w-7xl">
+                      {viewsToShow.map((view) => (
+                        <button
+                          key={`${view.namespace.join('.')}.${view.name}`}
+                          onClick={() => navigate(`/view/${view.namespace.join('.')}/${view.name}`)}
+                          className="bg-white border rounded-lg p-4 hover:shadow-md hover:border-primary/50 transition-all text-left"
+                        >
+                          <div className="flex items-start gap-3">
+                            <Eye className="h-5 w-5 text-blue-600 flex-shrink-0 mt-0.5" />
+                            <div className="flex-1 min-w-0">
+                              <div className="font-medium text-foreground truncate">{view.name}</div>
+                            </div>
+                          </div>
+                        </button>
+                      ))}
+                    </div>
+                  </>
+                )}
               </div>
             </>
           )}
+          {showDictionary && (
+            <DataDictionaryDialog
+              namespaces={selectedNs ? [selectedNs] : namespaces}
+              title={selectedNs ? selectedNs.displayName : 'Catalog'}
+              onClose={() => setShowDictionary(false)}
+            />
+          )}
     </div>
   )
 }
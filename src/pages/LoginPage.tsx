@@ -4,9 +4,49 @@ import { Button } from '@/components/ui/Button'
 import { Input } from '@/components/ui/Input'
 import { Label } from '@/components/ui/Label'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
-import { Shield, Lock, Eye, FileSearch, Heart, X, Database, FileText, GitBranch, BarChart3, Info, Github } from 'lucide-react'
+import { getPrincipalFingerprint } from '@/lib/iceberg/cache'
+import { CONCURRENCY_OPTIONS, DEFAULT_CONCURRENCY } from '@/lib/iceberg/scheduler'
+import type { AuthType } from '@/types/iceberg'
+import { Shield, Lock, Eye, FileSearch, Heart, X, Database, FileText, GitBranch, BarChart3, Info, Github, Plus, Trash2 } from 'lucide-react'
 
-type AuthType = 'bearer' | 'oauth2' | 'sigv4'
+type OAuthGrantType = 'client_credentials' | 'token_exchange' | 'refresh_token'
+
+// RFC 8693 token types offered for the token exchange subject token
+const SUBJECT_TOKEN_TYPES = [
+  { value: 'urn:ietf:params:oauth:token-type:access_token', label: 'Access token' },
+  { value: 'urn:ietf:params:oauth:token-type:id_token', label: 'ID token' },
+  { value: 'urn:ietf:params:oauth:token-type:jwt', label: 'JWT' },
+  { value: 'urn:ietf:params:oauth:token-type:refresh_token', label: 'Refresh token' },
+  { value: 'urn:ietf:params:oauth:token-type:saml2', label: 'SAML 2.0 assertion' },
+]
+
+/**
+ * The parts of a login that identify who the catalog sees, leaving out secrets that don't
+ * (client secrets, AWS secret keys) so rotating them keeps the same cache
+ */
+function getPrincipalIdentity(payload: Record<string, any>): unknown[] {
+  const { authType, customHeaders } = payload
+  let identity: unknown[]
+  if (authType === 'oauth2') {
+    identity = [payload.oauthEndpoint, payload.clientId, payload.oauthScope, payload.oauthAudience, payload.oauthResource, payload.subjectToken, payload.refreshToken]
+  } else if (authType === 'azure') {
+    identity = [payload.azureTenantId, payload.clientId, payload.azureScope]
+  } else if (authType === 'gcp') {
+    let clientEmail: string | undefined
+    try {
+      clientEmail = JSON.parse(payload.gcpServiceAccountKey).client_email
+    } catch {
+      // Validated by the worker; fall back to the whole key below
+    }
+    identity = [clientEmail ?? payload.gcpServiceAccountKey, payload.gcpScope]
+  } else if (authType === 'sigv4') {
+    identity = [payload.awsAccessKey, payload.awsRoleArn, payload.awsExternalId, payload.awsService]
+  } else {
+    identity = [payload.token]
+  }
+  // Gateway headers (tenants, API keys) can change what the catalog returns
+  return [authType, ...identity, customHeaders]
+}
 
 export function LoginPage() {
   const navigate = useNavigate()
@@ -21,14 +61,37 @@ export function LoginPage() {
   const [clientId, setClientId] = useState('')
   const [clientSecret, setClientSecret] = useState('')
   const [oauthScope, setOauthScope] = useState('')
+  const [oauthGrantType, setOauthGrantType] = useState<OAuthGrantType>('client_credentials')
+  const [oauthClientAuth, setOauthClientAuth] = useState<'basic' | 'body'>('basic')
+  const [oauthAudience, setOauthAudience] = useState('')
+  const [oauthResource, setOauthResource] = useState('')
+  const [subjectToken, setSubjectToken] = useState('')
+  const [subjectTokenType, setSubjectTokenType] = useState(SUBJECT_TOKEN_TYPES[0].value)
+  const [actorToken, setActorToken] = useState('')
+  const [refreshToken, setRefreshToken] = useState('')
+
+  // Azure Entra ID auth (reuses the client ID and secret fields)
+  const [azureTenantId, setAzureTenantId] = useState('')
+  const [azureScope, setAzureScope] = useState('https://storage.azure.com/.default')
+
+  // Google service account auth
+  const [gcpServiceAccountKey, setGcpServiceAccountKey] = useState('')
+  const [gcpScope, setGcpScope] = useState('https://www.googleapis.com/auth/cloud-platform')
 
   // SigV4 auth (AWS)
   const [awsAccessKey, setAwsAccessKey] = useState('')
   const [awsSecretKey, setAwsSecretKey] = useState('')
+  const [awsSessionToken, setAwsSessionToken] = useState('')
+  const [awsRoleArn, setAwsRoleArn] = useState('')
+  const [awsExternalId, setAwsExternalId] = useState('')
   const [awsRegion, setAwsRegion] = useState('us-east-1')
   const [awsService, setAwsService] = useState<'s3tables' | 'glue'>('glue')
 
   const [warehouse, setWarehouse] = useState('')
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY)
+  // Extra headers sent with every catalog request, e.g. for gateways in front of the catalog
+  const [customHeaders, setCustomHeaders] = useState<{ name: string; value: string }[]>([])
+  const [accessDelegation, setAccessDelegation] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState('')
   const [showSecurityModal, setShowSecurityModal] = useState(false)
@@ -50,8 +113,22 @@ export function LoginPage() {
       if (authType === 'bearer' && !token) {
         throw new Error('Bearer token is required')
       }
-      if (authType === 'oauth2' && (!clientId || !clientSecret)) {
-        throw new Error('OAuth2 client ID and client secret are required')
+      if (authType === 'oauth2') {
+        if (oauthGrantType === 'client_credentials' && (!clientId || !clientSecret)) {
+          throw new Error('OAuth2 client ID and client secret are required')
+        }
+        if (oauthGrantType === 'token_exchange' && !subjectToken) {
+          throw new Error('A subject token is required for token exchange')
+        }
+        if (oauthGrantType === 'refresh_token' && !refreshToken) {
+          throw new Error('A refresh token is required')
+        }
+      }
+      if (authType === 'azure' && (!azureTenantId || !clientId || !clientSecret)) {
+        throw new Error('Azure tenant ID, client ID and client secret are required')
+      }
+      if (authType === 'gcp' && !gcpServiceAccountKey.trim()) {
+        throw new Error('A Google service account key is required')
       }
       if (authType === 'sigv4') {
         if (!awsAccessKey || !awsSecretKey || !awsRegion) {
@@ -67,19 +144,43 @@ export function LoginPage() {
         endpoint,
         authType,
         warehouse: warehouse || null,
+        customHeaders: customHeaders.filter((h) => h.name.trim()),
+        accessDelegation: accessDelegation ? 'vended-credentials' : null,
       }
 
       if (authType === 'bearer') {
         authPayload.token = token
       } else if (authType === 'oauth2') {
         authPayload.oauthEndpoint = oauthEndpoint
+        authPayload.oauthGrantType = oauthGrantType
+        authPayload.oauthClientAuth = oauthClientAuth
         authPayload.clientId = clientId
         authPayload.clientSecret = clientSecret
-        authPayload.oauthScope = oauthScope || 'PRINCIPAL_ROLE:ALL'
+        authPayload.oauthScope = oauthScope
+        authPayload.oauthAudience = oauthAudience
+        authPayload.oauthResource = oauthResource
+        if (oauthGrantType === 'token_exchange') {
+          authPayload.subjectToken = subjectToken
+          authPayload.subjectTokenType = subjectTokenType
+          authPayload.actorToken = actorToken
+        } else if (oauthGrantType === 'refresh_token') {
+          authPayload.refreshToken = refreshToken
+        }
+      } else if (authType === 'azure') {
+        authPayload.azureTenantId = azureTenantId
+        authPayload.clientId = clientId
+        authPayload.clientSecret = clientSecret
+        authPayload.azureScope = azureScope
+      } else if (authType === 'gcp') {
+        authPayload.gcpServiceAccountKey = gcpServiceAccountKey
+        authPayload.gcpScope = gcpScope
       } else if (authType === 'sigv4') {
         authPayload.awsAccessKey = awsAccessKey
         authPayload.awsSecretKey = awsSecretKey
+        authPayload.awsSessionToken = awsSessionToken
         authPayload.awsRegion = awsRegion
+        authPayload.awsRoleArn = awsRoleArn
+        authPayload.awsExternalId = awsExternalId
         authPayload.awsService = awsService
       }
 
@@ -109,6 +210,9 @@ export function LoginPage() {
       if (authType === 'sigv4' && awsRegion) {
         sessionStorage.setItem('iceberg-aws-region', awsRegion)
       }
+      sessionStorage.setItem('iceberg-concurrency', String(concurrency))
+      // Lets a later login with the same identity reuse this one's metadata cache
+      sessionStorage.setItem('iceberg-principal', await getPrincipalFingerprint(getPrincipalIdentity(authPayload)))
 
       // Navigate to catalog explorer
       navigate('/catalog')
@@ -171,6 +275,8 @@ export function LoginPage() {
                   <option value="bearer">Bearer Token (R2 Data Catalog, Unity Catalog)</option>
                   <option value="oauth2">OAuth2 (Snowflake, Confluent)</option>
                   <option value="sigv4">AWS SigV4 (Glue)</option>
+                  <option value="azure">Azure Entra ID (OneLake)</option>
+                  <option value="gcp">Google Service Account (BigLake)</option>
                 </select>
               </div>
 
@@ -193,27 +299,108 @@ export function LoginPage() {
               {authType === 'oauth2' && (
                 <>
                   <div className="space-y-2">
-                    <Label htmlFor="clientId">Client ID *</Label>
+                    <Label htmlFor="oauthGrantType">Grant Type *</Label>
+                    <select
+                      id="oauthGrantType"
+                      value={oauthGrantType}
+                      onChange={(e) => setOauthGrantType(e.target.value as OAuthGrantType)}
+                      className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm"
+                    >
+                      <option value="client_credentials">Client credentials</option>
+                      <option value="token_exchange">Token exchange (RFC 8693)</option>
+                      <option value="refresh_token">Refresh token</option>
+                    </select>
+                  </div>
+                  {oauthGrantType === 'token_exchange' && (
+                    <>
+                      <div className="space-y-2">
+                        <Label htmlFor="subjectToken">Subject Token *</Label>
+                        <Input
+                          id="subjectToken"
+                          type="password"
+                          placeholder="Token to exchange for a catalog access token"
+                          value={subjectToken}
+                          onChange={(e) => setSubjectToken(e.target.value)}
+                          required
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="subjectTokenType">Subject Token Type *</Label>
+                        <select
+                          id="subjectTokenType"
+                          value={subjectTokenType}
+                          onChange={(e) => setSubjectTokenType(e.target.value)}
+                          className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm"
+                        >
+                          {SUBJECT_TOKEN_TYPES.map((type) => (
+                            <option key={type.value} value={type.value}>
+                              {type.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="actorToken">Actor Token (Optional)</Label>
+                        <Input
+                          id="actorToken"
+                          type="password"
+                          placeholder="Token of the party acting on the subject's behalf"
+                          value={actorToken}
+                          onChange={(e) => setActorToken(e.target.value)}
+                        />
+                      </div>
+                    </>
+                  )}
+                  {oauthGrantType === 'refresh_token' && (
+                    <div className="space-y-2">
+                      <Label htmlFor="refreshToken">Refresh Token *</Label>
+                      <Input
+                        id="refreshToken"
+                        type="password"
+                        placeholder="Enter your OAuth2 refresh token"
+                        value={refreshToken}
+                        onChange={(e) => setRefreshToken(e.target.value)}
+                        required
+                      />
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor="clientId">Client ID {oauthGrantType === 'client_credentials' ? '*' : '(Optional)'}</Label>
                     <Input
                       id="clientId"
                       type="text"
                       placeholder="Enter your OAuth2 client ID"
                       value={clientId}
                       onChange={(e) => setClientId(e.target.value)}
-                      required
+                      required={oauthGrantType === 'client_credentials'}
                     />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="clientSecret">Client Secret *</Label>
+                    <Label htmlFor="clientSecret">Client Secret {oauthGrantType === 'client_credentials' ? '*' : '(Optional)'}</Label>
                     <Input
                       id="clientSecret"
                       type="password"
                       placeholder="Enter your OAuth2 client secret"
                       value={clientSecret}
                       onChange={(e) => setClientSecret(e.target.value)}
-                      required
+                      required={oauthGrantType === 'client_credentials'}
                     />
                   </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="oauthClientAuth">Client Authentication</Label>
+                    <select
+                      id="oauthClientAuth"
+                      value={oauthClientAuth}
+                      onChange={(e) => setOauthClientAuth(e.target.value as 'basic' | 'body')}
+                      className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm"
+                    >
+                      <option value="basic">HTTP Basic (client_secret_basic)</option>
+                      <option value="body">In request body (client_secret_post)</option>
+                    </select>
+                    <p className="text-xs text-muted-foreground">
+                      Some Keycloak and Entra ID setups only accept the client secret in the request body
+                    </p>
+                  </div>
                   <div className="space-y-2">
                     <Label htmlFor="oauthScope">OAuth2 Scope (Optional)</Label>
                     <Input
@@ -224,7 +411,32 @@ export function LoginPage() {
                       onChange={(e) => setOauthScope(e.target.value)}
                     />
                     <p className="text-xs text-muted-foreground">
-                      Default: PRINCIPAL_ROLE:ALL (for Polaris/Snowflake Open Catalog)
+                      {oauthGrantType === 'client_credentials'
+                        ? 'Default: PRINCIPAL_ROLE:ALL (for Polaris/Snowflake Open Catalog)'
+                        : 'Only sent if specified'}
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="oauthAudience">Audience (Optional)</Label>
+                    <Input
+                      id="oauthAudience"
+                      type="text"
+                      placeholder="e.g., https://catalog.example.com"
+                      value={oauthAudience}
+                      onChange={(e) => setOauthAudience(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="oauthResource">Resource (Optional)</Label>
+                    <Input
+                      id="oauthResource"
+                      type="text"
+                      placeholder="e.g., api://catalog"
+                      value={oauthResource}
+                      onChange={(e) => setOauthResource(e.target.value)}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Sent as the <code>audience</code> and <code>resource</code> token request parameters when set
                     </p>
                   </div>
                   <div className="space-y-2">
@@ -243,6 +455,99 @@ export function LoginPage() {
                 </>
               )}
 
+              {/* Azure Entra ID Auth */}
+              {authType === 'azure' && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="azureTenantId">Tenant ID *</Label>
+                    <Input
+                      id="azureTenantId"
+                      type="text"
+                      placeholder="00000000-0000-0000-0000-000000000000"
+                      value={azureTenantId}
+                      onChange={(e) => setAzureTenantId(e.target.value)}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="azureClientId">Client (Application) ID *</Label>
+                    <Input
+                      id="azureClientId"
+                      type="text"
+                      placeholder="App registration client ID"
+                      value={clientId}
+                      onChange={(e) => setClientId(e.target.value)}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="azureClientSecret">Client Secret *</Label>
+                    <Input
+                      id="azureClientSecret"
+                      type="password"
+                      placeholder="App registration client secret"
+                      value={clientSecret}
+                      onChange={(e) => setClientSecret(e.target.value)}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="azureScope">Token Scope</Label>
+                    <select
+                      id="azureScope"
+                      value={azureScope}
+                      onChange={(e) => setAzureScope(e.target.value)}
+                      className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm"
+                    >
+                      <option value="https://storage.azure.com/.default">OneLake / Azure Storage</option>
+                      <option value="https://api.fabric.microsoft.com/.default">Microsoft Fabric API</option>
+                    </select>
+                    <p className="text-xs text-muted-foreground">
+                      Tokens are requested from Entra ID by the worker and refreshed automatically
+                    </p>
+                  </div>
+                </>
+              )}
+
+              {/* Google Service Account Auth */}
+              {authType === 'gcp' && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="gcpServiceAccountKey">Service Account Key (JSON) *</Label>
+                    <textarea
+                      id="gcpServiceAccountKey"
+                      rows={5}
+                      placeholder='{"type": "service_account", "client_email": "...", "private_key": "..."}'
+                      value={gcpServiceAccountKey}
+                      onChange={(e) => setGcpServiceAccountKey(e.target.value)}
+                      className="w-full px-3 py-2 border border-input rounded-md bg-background text-xs font-mono"
+                      required
+                    />
+                    <input
+                      type="file"
+                      accept="application/json,.json"
+                      onChange={async (e) => {
+                        const file = e.target.files?.[0]
+                        if (file) setGcpServiceAccountKey(await file.text())
+                      }}
+                      className="text-xs text-muted-foreground"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      The key is encrypted with your session; the worker signs a JWT with it to get access tokens and refreshes them automatically
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="gcpScope">OAuth2 Scope</Label>
+                    <Input
+                      id="gcpScope"
+                      type="text"
+                      value={gcpScope}
+                      onChange={(e) => setGcpScope(e.target.value)}
+                    />
+                  </div>
+                </>
+              )}
+
               {/* AWS SigV4 Auth */}
               {authType === 'sigv4' && (
                 <>
@@ -284,6 +589,41 @@ export function LoginPage() {
                       required
                     />
                   </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="awsSessionToken">AWS Session Token (Optional)</Label>
+                    <Input
+                      id="awsSessionToken"
+                      type="password"
+                      placeholder="For temporary credentials (ASIA... access keys)"
+                      value={awsSessionToken}
+                      onChange={(e) => setAwsSessionToken(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="awsRoleArn">Role ARN to Assume (Optional)</Label>
+                    <Input
+                      id="awsRoleArn"
+                      type="text"
+                      placeholder="arn:aws:iam::123456789012:role/IcebergReadOnly"
+                      value={awsRoleArn}
+                      onChange={(e) => setAwsRoleArn(e.target.value)}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      The keys above are only used to call STS AssumeRole; catalog requests are signed with the role's temporary credentials, refreshed before they expire
+                    </p>
+                  </div>
+                  {awsRoleArn && (
+                    <div className="space-y-2">
+                      <Label htmlFor="awsExternalId">External ID (Optional)</Label>
+                      <Input
+                        id="awsExternalId"
+                        type="text"
+                        placeholder="Required if the role's trust policy checks sts:ExternalId"
+                        value={awsExternalId}
+                        onChange={(e) => setAwsExternalId(e.target.value)}
+                      />
+                    </div>
+                  )}
                   <div className="space-y-2">
                     <Label htmlFor="awsRegion">AWS Region *</Label>
                     <Input
@@ -334,6 +674,85 @@ export function LoginPage() {
                 </p>
               </div>
 
+              <div className="space-y-2">
+                <Label>Catalog Headers (Optional)</Label>
+                <label className="flex items-start gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={accessDelegation}
+                    onChange={(e) => setAccessDelegation(e.target.checked)}
+                    className="mt-0.5"
+                  />
+                  <span>
+                    Request vended credentials
+                    <span className="block text-xs text-muted-foreground">
+                      Sends <code>X-Iceberg-Access-Delegation: vended-credentials</code> so the catalog returns storage credentials for reading manifests
+                    </span>
+                  </span>
+                </label>
+                {customHeaders.map((header, i) => (
+                  <div key={i} className="flex items-center gap-2">
+                    <Input
+                      type="text"
+                      placeholder="Header name"
+                      value={header.name}
+                      onChange={(e) =>
+                        setCustomHeaders((prev) => prev.map((h, j) => (j === i ? { ...h, name: e.target.value } : h)))
+                      }
+                      className="flex-1"
+                    />
+                    <Input
+                      type="password"
+                      placeholder="Value"
+                      value={header.value}
+                      onChange={(e) =>
+                        setCustomHeaders((prev) => prev.map((h, j) => (j === i ? { ...h, value: e.target.value } : h)))
+                      }
+                      className="flex-1"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setCustomHeaders((prev) => prev.filter((_, j) => j !== i))}
+                      className="text-muted-foreground hover:text-foreground"
+                      title="Remove header"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCustomHeaders((prev) => [...prev, { name: '', value: '' }])}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add header
+                </Button>
+                <p className="text-xs text-muted-foreground">
+                  Sent with every catalog request, e.g. tenant headers or API keys for a gateway. Values are encrypted with your session credentials.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="concurrency">Parallel Requests</Label>
+                <select
+                  id="concurrency"
+                  value={concurrency}
+                  onChange={(e) => setConcurrency(Number(e.target.value))}
+                  className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm"
+                >
+                  {CONCURRENCY_OPTIONS.map((n) => (
+                    <option key={n} value={n}>
+                      {n} {n === DEFAULT_CONCURRENCY && '(default)'}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-muted-foreground">
+                  How many catalog requests to run at once while loading. Lower it if your catalog rate-limits; rate-limited requests are retried automatically.
+                </p>
+              </div>
+
               {error && (
                 <div className="p-3 text-sm text-red-600 bg-red-50 rounded-md">
                   {error}
@@ -348,7 +767,7 @@ export function LoginPage() {
             <div className="mt-6 p-4 bg-muted/50 rounded-md space-y-2 text-xs text-muted-foreground">
               <div className="flex items-start gap-2">
                 <FileSearch className="h-4 w-4 mt-0.5 flex-shrink-0" />
-                <p>We never read Parquet files. This app only reads metadata accessible from the IRC endpoint.</p>
+                <p>We never read Parquet files. This app only reads metadata from the IRC endpoint and, when credentials are vended, Iceberg manifest files.</p>
               </div>
               <div className="flex items-start gap-2">
                 <Shield className="h-4 w-4 mt-0.5 flex-shrink-0" />
@@ -449,7 +868,7 @@ export function LoginPage() {
                   </li>
                   <li className="flex items-start gap-2">
                     <span className="text-primary font-bold">•</span>
-                    <span><span className="font-semibold text-foreground">Track schema evolution</span> - browse up to 10 previous schema versions</span>
+                    <span><span className="font-semibold text-foreground">Track schema evolution</span> - browse every schema version and compare any two</span>
                   </li>
                   <li className="flex items-start gap-2">
                     <span className="text-primary font-bold">•</span>
@@ -1,4 +1,4 @@
-import { useEffect, useState, useCallback } from 'react'
+import { useEffect, useRef, useState, useCallback } from 'react'
 import { useNavigate } from 'react-router-dom'
 import {
   ReactFlow,
@@ -17,22 +17,28 @@ import '@xyflow/react/dist/style.css'
 import { LoadingScreen } from '@/components/catalog/LoadingScreen'
 import { useCatalog } from '@/lib/context/CatalogContext'
 import { getClient } from '@/lib/iceberg/client'
+import { flattenNamespaces, loadNamespaceTree, type LoadProgress } from '@/lib/iceberg/namespaces'
 import { aggregateMetrics, formatBytes, formatNumber } from '@/lib/iceberg/metrics'
+import { isAbortError } from '@/lib/iceberg/scheduler'
 
 function MapPageContent() {
   const navigate = useNavigate()
   const reactFlow = useReactFlow()
-  const { namespaces, setNamespaces, isLoaded, setIsLoaded, tableMetrics } = useCatalog()
+  const { namespaces, setNamespaces, isLoaded, setIsLoaded, setFailedNamespaces, tableMetrics } = useCatalog()
   const [isLoading, setIsLoading] = useState(!isLoaded)
   const [searchQuery, setSearchQuery] = useState('')
   const [expandedNamespaces, setExpandedNamespaces] = useState<Set<string>>(new Set())
-  const [loadProgress, setLoadProgress] = useState({
+  const [loadProgress, setLoadProgress] = useState<LoadProgress>({
     current: 0,
     total: 0,
     message: 'Initializing...',
   })
   const [nodes, setNodes, onNodesChange] = useNodesState([] as Node[])
   const [edges, setEdges, onEdgesChange] = useEdgesState([] as Edge[])
+  const abortRef = useRef<AbortController | null>(null)
+
+  // Stop loading the catalog when leaving the page
+  useEffect(() => () => abortRef.current?.abort(), [])
 
   useEffect(() => {
     if (!isLoaded) {
@@ -55,66 +61,20 @@ function MapPageContent() {
   }, [])
 
   const loadCatalog = async () => {
+    const controller = new AbortController()
+    abortRef.current = controller
     try {
-      const client = getClient()
-
-      setLoadProgress({ current: 0, total: 1, message: 'Loading namespaces...' })
-      const namespacesResult = await client.listNamespaces()
-      const totalNamespaces = namespacesResult.namespaces.length
-
-      setLoadProgress({
-        current: 1,
-        total: totalNamespaces + 1,
-        message: `Found ${totalNamespaces} namespaces`,
-      })
+      const client = getClient(undefined, { signal: controller.signal })
 
-      const nodes: Array<{
-        namespace: string[]
-        displayName: string
-        tables: any[]
-        isExpanded: boolean
-      }> = []
-
-      for (let i = 0; i < namespacesResult.namespaces.length; i++) {
-        const ns = namespacesResult.namespaces[i]
-        const displayName = ns.join('.')
-
-        setLoadProgress({
-          current: i + 1,
-          total: totalNamespaces + 1,
-          message: `Loading tables from ${displayName}...`,
-        })
-
-        try {
-          const tablesResult = await client.listTables(ns)
-          nodes.push({
-            namespace: ns,
-            displayName,
-            tables: tablesResult.identifiers,
-            isExpanded: false,
-          })
-        } catch (err) {
-          console.error(`Failed to load tables for ${displayName}:`, err)
-          nodes.push({
-            namespace: ns,
-            displayName,
-            tables: [],
-            isExpanded: false,
-          })
-        }
-      }
-
-      setLoadProgress({
-        current: totalNamespaces + 1,
-        total: totalNamespaces + 1,
-        message: 'Complete!',
-      })
+      const { nodes, failed } = await loadNamespaceTree(client, setLoadProgress, controller.signal)
 
       setNamespaces(nodes)
+      setFailedNamespaces(failed)
       setIsLoaded(true)
       setIsLoading(false)
       buildFlowDiagram()
     } catch (err) {
+      if (isAbortError(err)) return
       console.error('Failed to load catalog:', err)
       if (err instanceof Error && err.message.includes('Not authenticated')) {
         navigate('/')
@@ -126,11 +86,14 @@ function MapPageContent() {
   const buildFlowDiagram = () => {
     if (namespaces.length === 0) return
 
+    // Lay out every level of the hierarchy; edges follow parent namespaces
+    const allNamespaces = flattenNamespaces(namespaces)
+
     const flowNodes: Node[] = []
     const flowEdges: Edge[] = []
 
     // Calculate dimensions for better layout
-    const namespacesPerRow = Math.min(5, namespaces.length) // Max 5 per row
+    const namespacesPerRow = Math.min(5, allNamespaces.length) // Max 5 per row
     const namespaceSpacingX = 350 // More horizontal space
     const namespaceSpacingY = 300 // More vertical space between namespace levels
     const tableSpacingY = 120 // Space for tables below namespace
@@ -150,7 +113,7 @@ function MapPageContent() {
             </svg>
             <div className="text-left">
               <div className="font-semibold text-sm">Catalog</div>
-              <div className="text-xs opacity-80">{namespaces.length} namespaces</div>
+              <div className="text-xs opacity-80">{allNamespaces.length} namespaces</div>
             </div>
           </div>
         ),
@@ -168,10 +131,10 @@ function MapPageContent() {
     })
 
     // Add namespace nodes with better layout
-    namespaces.forEach((ns, nsIndex) => {
+    allNamespaces.forEach((ns, nsIndex) => {
       const row = Math.floor(nsIndex / namespacesPerRow)
       const col = nsIndex % namespacesPerRow
-      const colsInThisRow = Math.min(namespacesPerRow, namespaces.length - row * namespacesPerRow)
+      const colsInThisRow = Math.min(namespacesPerRow, allNamespaces.length - row * namespacesPerRow)
       const rowOffsetX = ((namespacesPerRow - colsInThisRow) * namespaceSpacingX) / 2
 
       const nsId = `ns-${ns.displayName}`
@@ -230,10 +193,14 @@ function MapPageContent() {
         },
       })
 
-      // Edge from catalog to namespace
+      // Edge from parent namespace (or catalog for top-level namespaces)
+      const parentNs = allNamespaces.find(
+        (candidate) => candidate.children.some((child) => child.displayName === ns.displayName)
+      )
+      const sourceId = parentNs ? `ns-${parentNs.displayName}` : 'catalog'
       flowEdges.push({
-        id: `catalog-${nsId}`,
-        source: 'catalog',
+        id: `${sourceId}-${nsId}`,
+        source: sourceId,
         target: nsId,
         type: 'smoothstep',
         animated: false,
@@ -361,7 +328,7 @@ function MapPageContent() {
 
     // Find matching namespaces and tables
     const matchingNamespaces = new Set<string>()
-    namespaces.forEach((ns) => {
+    flattenNamespaces(namespaces).forEach((ns) => {
       if (ns.displayName.toLowerCase().includes(query)) {
         matchingNamespaces.add(ns.displayName)
       } else {
@@ -0,0 +1,209 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { Columns3, Loader2, Search } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Input } from '@/components/ui/Input'
+import { useCatalog } from '@/lib/context/CatalogContext'
+import { getClient } from '@/lib/iceberg/client'
+import {
+  COLUMN_SEARCH_LIMIT,
+  getTableKey,
+  indexTableSchemas,
+  isEmptyColumnQuery,
+  parseColumnQuery,
+  searchColumns,
+  type IndexProgress,
+} from '@/lib/iceberg/columnSearch'
+import { flattenNamespaces } from '@/lib/iceberg/namespaces'
+import { formatFieldType } from '@/lib/iceberg/schema'
+
+const EXAMPLE_QUERIES = ['customer_id type:string', 'doc:pii', 'name:*_at type:timestamptz', 'type:decimal required:yes']
+
+/**
+ * Wrap occurrences of any of the terms in <mark> so matches stand out in results
+ */
+function Highlight({ text, terms }: { text: string; terms: string[] }) {
+  const needles = terms.filter((t) => t && !t.includes('*'))
+  if (needles.length === 0) return <>{text}</>
+
+  const pattern = new RegExp(`(${needles.map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`, 'gi')
+  return (
+    <>
+      {text.split(pattern).map((part, i) =>
+        i % 2 === 1 ? <mark key={i} className="bg-yellow-200 rounded-sm">{part}</mark> : <span key={i}>{part}</span>
+      )}
+    </>
+  )
+}
+
+export function SearchPage() {
+  const navigate = useNavigate()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const { namespaces, isLoaded, tableSchemas, setTableSchema, addApiCall } = useCatalog()
+  const [input, setInput] = useState(searchParams.get('q') || '')
+  const [progress, setProgress] = useState<IndexProgress | null>(null)
+  const [failedCount, setFailedCount] = useState(0)
+  const abortRef = useRef<AbortController | null>(null)
+
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  // Keep the query in the URL so searches can be shared and survive navigating to a table and back
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setSearchParams(input.trim() ? { q: input.trim() } : {}, { replace: true })
+    }, 250)
+    return () => clearTimeout(timeout)
+  }, [input])
+
+  const queryText = searchParams.get('q') || ''
+  const query = useMemo(() => parseColumnQuery(queryText), [queryText])
+  const results = useMemo(() => searchColumns(tableSchemas.values(), query), [tableSchemas, query])
+
+  const allTables = useMemo(() => flattenNamespaces(namespaces).flatMap((ns) => ns.tables), [namespaces])
+  const unindexed = allTables.filter((t) => !tableSchemas.has(getTableKey(t.namespace, t.name)))
+
+  const handleIndex = async () => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setFailedCount(0)
+    try {
+      const { failed } = await indexTableSchemas(
+        getClient(addApiCall),
+        unindexed,
+        (entry) => setTableSchema(getTableKey(entry.namespace, entry.table), entry),
+        setProgress,
+        controller.signal
+      )
+      setFailedCount(failed)
+    } finally {
+      // A stopped run may finish after a new one started; leave the new one's state alone
+      if (abortRef.current === controller) {
+        abortRef.current = null
+        setProgress(null)
+      }
+    }
+  }
+
+  const highlightTerms = [...query.terms, ...query.name]
+  const docTerms = [...query.terms, ...query.doc]
+  const tableCount = new Set(results.map((r) => r.tableKey)).size
+  const percentage = progress && progress.total > 0 ? Math.round((progress.current / progress.total) * 100) : 0
+
+  return (
+    <div className="flex flex-col h-full overflow-hidden">
+      <div className="border-b bg-white p-4 space-y-3">
+        <h1 className="text-2xl font-light text-foreground flex items-center gap-2">
+          <Columns3 className="h-6 w-6 text-primary" />
+          Column Search
+        </h1>
+        <div className="relative max-w-3xl">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            autoFocus
+            type="text"
+            placeholder='Search columns, e.g. customer_id type:string or doc:"personal data"'
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <div className="text-xs text-muted-foreground">
+          Filters: <code>name:</code> (<code>*</code> wildcards), <code>type:</code>, <code>doc:</code>, <code>table:</code>,{' '}
+          <code>required:yes|no</code>. Plain words match the column path or its doc.
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-6 bg-accent/20 space-y-4">
+        <div className="max-w-7xl flex flex-wrap items-center justify-between gap-3 bg-white border rounded-lg p-4">
+          <div className="text-sm">
+            <span className="font-medium">{tableSchemas.size}</span>
+            <span className="text-muted-foreground"> of {allTables.length} tables indexed</span>
+            {!isLoaded && <span className="text-muted-foreground"> · catalog not loaded yet</span>}
+            {failedCount > 0 && <span className="text-red-600"> · {failedCount} failed to load</span>}
+          </div>
+          {progress ? (
+            <div className="flex items-center gap-3 min-w-[16rem]">
+              <div className="flex-1 space-y-1">
+                <div className="text-xs text-muted-foreground truncate">{progress.message}</div>
+                <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                  <div className="h-full bg-primary transition-all duration-300" style={{ width: `${percentage}%` }} />
+                </div>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => abortRef.current?.abort()}>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Stop
+              </Button>
+            </div>
+          ) : (
+            unindexed.length > 0 && (
+              <Button variant="outline" size="sm" onClick={handleIndex}>
+                Index {unindexed.length} remaining {unindexed.length === 1 ? 'table' : 'tables'}
+              </Button>
+            )
+          )}
+        </div>
+
+        {isEmptyColumnQuery(query) ? (
+          <div className="max-w-7xl text-center py-12 text-muted-foreground space-y-3">
+            <p>Search the schemas of every indexed table. Tables are indexed as you open them, or all at once above.</p>
+            <div className="flex flex-wrap justify-center gap-2">
+              {EXAMPLE_QUERIES.map((example) => (
+                <button
+                  key={example}
+                  onClick={() => setInput(example)}
+                  className="text-xs font-mono bg-white border rounded px-2 py-1 hover:border-primary/50"
+                >
+                  {example}
+                </button>
+              ))}
+            </div>
+          </div>
+        ) : results.length === 0 ? (
+          <div className="max-w-7xl text-center py-12 text-muted-foreground">
+            No columns match "{queryText}"
+            {unindexed.length > 0 && ` in the ${tableSchemas.size} indexed tables`}
+          </div>
+        ) : (
+          <div className="max-w-7xl bg-white border rounded-lg overflow-x-auto">
+            <div className="px-4 py-2 border-b text-sm text-muted-foreground">
+              {results.length === COLUMN_SEARCH_LIMIT ? `First ${COLUMN_SEARCH_LIMIT}` : results.length}{' '}
+              {results.length === 1 ? 'column' : 'columns'} in {tableCount} {tableCount === 1 ? 'table' : 'tables'}
+            </div>
+            <table className="w-full text-sm">
+              <thead className="border-b">
+                <tr className="text-left">
+                  <th className="py-2 px-4 font-medium">Table</th>
+                  <th className="py-2 px-4 font-medium">Column</th>
+                  <th className="py-2 px-4 font-medium">Type</th>
+                  <th className="py-2 px-4 font-medium">Required</th>
+                  <th className="py-2 px-4 font-medium">Doc</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.map((result) => (
+                  <tr
+                    key={`${result.tableKey}-${result.field.id}`}
+                    onClick={() => navigate(`/table/${result.namespace.join('.')}/${result.table}?tab=schema&field=${result.field.id}`)}
+                    className="border-b last:border-b-0 hover:bg-accent cursor-pointer"
+                  >
+                    <td className="py-2 px-4 text-muted-foreground">{result.tableKey}</td>
+                    <td className="py-2 px-4 font-mono text-xs">
+                      <Highlight text={result.field.path} terms={highlightTerms} />
+                    </td>
+                    <td className="py-2 px-4 font-mono text-xs">{formatFieldType(result.field.type)}</td>
+                    <td className="py-2 px-4">
+                      {result.field.required ? <span className="text-green-600">Yes</span> : <span className="text-muted-foreground">No</span>}
+                    </td>
+                    <td className="py-2 px-4 text-xs text-muted-foreground">
+                      {result.field.doc && <Highlight text={result.field.doc} terms={docTerms} />}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,10 +1,22 @@
-import { useEffect, useState } from 'react'
-import { useParams, useNavigate } from 'react-router-dom'
-import { ArrowLeft, Calendar, Database, FileText, GitBranch, Info, BarChart3, AlertCircle, CheckCircle, ChevronRight } from 'lucide-react'
+import { useEffect, useRef, useState } from 'react'
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom'
+import { ArrowLeft, Calendar, History, Database, FileText, GitBranch, Info, BarChart3, AlertCircle, CheckCircle, ChevronRight, Download } from 'lucide-react'
 import { Button } from '@/components/ui/Button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
 import { ConnectTab } from '@/components/table/ConnectTab'
+import { FilesTab } from '@/components/table/FilesTab'
+import { MetadataHistoryTab } from '@/components/table/MetadataHistoryTab'
+import { PartitionsTab } from '@/components/table/PartitionsTab'
+import { RefBadge, RefsTab } from '@/components/table/RefsTab'
+import { SortOrderTab } from '@/components/table/SortOrderTab'
+import { isTableTab, TABLE_TABS, type TableTab } from '@/components/table/tableTabs'
+import { SnapshotActivityChart } from '@/components/table/SnapshotActivityChart'
+import { SnapshotComparePanel } from '@/components/table/SnapshotComparePanel'
+import { SnapshotLineageGraph } from '@/components/table/SnapshotLineageGraph'
+import { SchemaExportPanel } from '@/components/table/SchemaExportPanel'
+import { SchemaChangeDetails, SchemaChangeSummary, SchemaFieldsTable } from '@/components/table/SchemaFieldsTable'
 import { getClient } from '@/lib/iceberg/client'
+import { getIndexedSchema } from '@/lib/iceberg/columnSearch'
 import {
   extractTableMetrics,
   formatBytes,
@@ -18,44 +30,113 @@ import {
   getLastCompaction,
   getAverageFileSize,
 } from '@/lib/iceberg/metrics'
+import type { MetadataVersion } from '@/lib/iceberg/metadata'
+import { getRefsBySnapshot } from '@/lib/iceberg/refs'
+import { compareSchemas, hasSchemaChanges } from '@/lib/iceberg/schema'
 import { useCatalog } from '@/lib/context/CatalogContext'
 import { cn } from '@/lib/utils/cn'
-import type { LoadTableResult } from '@/types/iceberg'
+import type { AuthType, LoadTableResult } from '@/types/iceberg'
 
 export function TablePage() {
   const { namespace, table } = useParams<{ namespace: string; table: string }>()
   const navigate = useNavigate()
-  const { setTableMetric, addApiCall } = useCatalog()
+  const { setTableMetric, setTableSchema, addApiCall } = useCatalog()
   const [tableData, setTableData] = useState<LoadTableResult | null>(null)
-  const [activeTab, setActiveTab] = useState<'overview' | 'schema' | 'snapshots' | 'properties' | 'connect'>('overview')
+  const [searchParams, setSearchParams] = useSearchParams()
+  const [activeTab, setActiveTab] = useState<TableTab>(() => {
+    const tab = searchParams.get('tab')
+    return isTableTab(tab) ? tab : 'overview'
+  })
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState('')
   const [snapshotSortOrder, setSnapshotSortOrder] = useState<'desc' | 'asc'>('desc')
-  const [hoveredBar, setHoveredBar] = useState<{ date: string; count: number; x: number; y: number } | null>(null)
+  const [snapshotView, setSnapshotView] = useState<'list' | 'lineage' | 'compare'>('list')
+  const [compareSnapshotIds, setCompareSnapshotIds] = useState<{ from?: number; to?: number }>({})
+  const [highlightedSnapshotId, setHighlightedSnapshotId] = useState<number | null>(null)
   const [selectedSchemaId, setSelectedSchemaId] = useState<number | null>(null)
-
+  // Schema to compare against: null follows the version before the displayed one, 'none' turns comparison off
+  const [compareSchemaId, setCompareSchemaId] = useState<number | 'none' | null>(null)
+  const [showSchemaExport, setShowSchemaExport] = useState(false)
+  const [historicalVersion, setHistoricalVersion] = useState<MetadataVersion | null>(null)
+  // The table on screen, so a late background revalidation for another table is ignored
+  const currentTableKeyRef = useRef('')
 
   useEffect(() => {
+    // Nothing selected on the previous table (a metadata version, schema or snapshot) applies to this one
+    setTableData(null)
+    setHistoricalVersion(null)
+    setSelectedSchemaId(null)
+    setCompareSchemaId(null)
+    setHighlightedSnapshotId(null)
+    setCompareSnapshotIds({})
+    setSnapshotView('list')
+    setShowSchemaExport(false)
+    setError('')
+    setIsLoading(true)
     if (namespace && table) {
+      currentTableKeyRef.current = `${namespace}.${table}`
       loadTable()
     }
   }, [namespace, table])
 
+  // The active tab is mirrored in `?tab=` so links (column search, the command palette) can open a tab.
+  // Column search also passes `?field=` to highlight a field on the Schema tab.
+  const highlightedFieldParam = searchParams.get('field')
+  const highlightedFieldId = highlightedFieldParam !== null ? Number(highlightedFieldParam) : null
+  useEffect(() => {
+    const tab = searchParams.get('tab')
+    if (isTableTab(tab)) {
+      setActiveTab(tab)
+    }
+    if (highlightedFieldParam !== null) {
+      setSelectedSchemaId(null)
+    }
+  }, [searchParams])
+
+  const selectTab = (tab: TableTab) => {
+    setActiveTab(tab)
+    setSearchParams({ tab }, { replace: true })
+  }
+
+  useEffect(() => {
+    if (highlightedSnapshotId !== null) {
+      document.getElementById(`snapshot-${highlightedSnapshotId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    }
+  }, [highlightedSnapshotId])
+
   const loadTable = async () => {
     if (!namespace || !table) return
 
-    try {
-      const client = getClient(addApiCall)
-      const namespaceArray = namespace.split('.')
-      const result = await client.loadTable(namespaceArray, table)
+    const namespaceArray = namespace.split('.')
+    const tableKey = `${namespace}.${table}`
+
+    const applyResult = (result: LoadTableResult) => {
       setTableData(result)
 
       // Extract and cache metrics
       const metrics = extractTableMetrics(result.metadata)
       if (metrics) {
-        const tableKey = `${namespace}.${table}`
         setTableMetric(tableKey, metrics)
       }
+
+      // Add the current schema to the column search index
+      const indexed = getIndexedSchema(namespaceArray, table, result.metadata)
+      if (indexed) {
+        setTableSchema(tableKey, indexed)
+      }
+    }
+
+    try {
+      const client = getClient(addApiCall)
+      const result = await client.loadTable(namespaceArray, table, {
+        // Cached metadata is shown first; swap in the catalog's copy if the table has changed since
+        onRevalidate: (fresh) => {
+          if (currentTableKeyRef.current === tableKey) {
+            applyResult(fresh)
+          }
+        },
+      })
+      applyResult(result)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load table')
     } finally {
@@ -63,86 +144,25 @@ export function TablePage() {
     }
   }
 
-  const formatTimestamp = (ms: number): string => {
-    return new Date(ms).toLocaleString()
+  const showSnapshotDetails = (snapshotId: number) => {
+    setSnapshotView('list')
+    setHighlightedSnapshotId(snapshotId)
   }
 
-  // Compare two schemas to detect changes
-  const compareSchemas = (oldSchema: any, newSchema: any) => {
-    const changes = {
-      added: [] as any[],
-      removed: [] as any[],
-      modified: [] as any[],
-    }
-
-    const oldFields = new Map(oldSchema.fields.map((f: any) => [f.id, f]))
-    const newFields = new Map(newSchema.fields.map((f: any) => [f.id, f]))
-
-    // Find added fields
-    newFields.forEach((field: any, id) => {
-      if (!oldFields.has(id)) {
-        changes.added.push(field)
-      }
-    })
-
-    // Find removed fields
-    oldFields.forEach((field: any, id) => {
-      if (!newFields.has(id)) {
-        changes.removed.push(field)
-      }
-    })
-
-    // Find modified fields (type or required changed)
-    newFields.forEach((newField: any, id) => {
-      const oldField: any = oldFields.get(id)
-      if (oldField) {
-        const typeChanged = JSON.stringify(oldField.type) !== JSON.stringify(newField.type)
-        const requiredChanged = oldField.required !== newField.required
-        if (typeChanged || requiredChanged) {
-          changes.modified.push({
-            field: newField,
-            oldType: oldField.type,
-            oldRequired: oldField.required,
-            typeChanged,
-            requiredChanged,
-          })
-        }
-      }
-    })
-
-    return changes
+  const compareWithParent = (snapshotId: number, parentId: number) => {
+    setCompareSnapshotIds({ from: parentId, to: snapshotId })
+    setSnapshotView('compare')
   }
 
-  const groupSnapshotsByDay = (snapshots: typeof metadata.snapshots, days: number = 7) => {
-    if (!snapshots || snapshots.length === 0) return []
-
-    // Find the most recent snapshot timestamp
-    const maxTimestamp = Math.max(...snapshots.map(s => s['timestamp-ms']))
-    const endDate = new Date(maxTimestamp)
-
-    // Calculate start date as N-1 days before end date (to include end date)
-    const startDate = new Date(endDate)
-    startDate.setDate(startDate.getDate() - (days - 1))
-    startDate.setHours(0, 0, 0, 0)
-
-    // Initialize all days with 0
-    const dailyData: { date: string; count: number }[] = []
-    for (let d = new Date(startDate); d <= endDate; d.setDate(d.getDate() + 1)) {
-      const dateKey = d.toISOString().split('T')[0]
-      dailyData.push({ date: dateKey, count: 0 })
-    }
-
-    // Count snapshots per day
-    snapshots.forEach(snapshot => {
-      const date = new Date(snapshot['timestamp-ms'])
-      if (date >= startDate && date <= endDate) {
-        const dateKey = date.toISOString().split('T')[0]
-        const dayData = dailyData.find(d => d.date === dateKey)
-        if (dayData) dayData.count++
-      }
-    })
+  const selectHistoricalVersion = (version: MetadataVersion | null) => {
+    setHistoricalVersion(version)
+    setSelectedSchemaId(null)
+    setCompareSchemaId(null)
+    setCompareSnapshotIds({})
+  }
 
-    return dailyData
+  const formatTimestamp = (ms: number): string => {
+    return new Date(ms).toLocaleString()
   }
 
   if (isLoading) {
@@ -161,7 +181,9 @@ export function TablePage() {
     )
   }
 
-  const metadata = tableData.metadata
+  // When a previous metadata file is selected, render the table as of that version
+  const metadata = historicalVersion?.metadata ?? tableData.metadata
+  const displayedTableData = historicalVersion ? { ...tableData, metadata } : tableData
   const currentSchema = metadata.schemas.find((s) => s['schema-id'] === metadata['current-schema-id'])
   const currentSnapshot = metadata.snapshots?.find(
     (s) => s['snapshot-id'] === metadata['current-snapshot-id']
@@ -170,15 +192,28 @@ export function TablePage() {
   const compactionNeeded = needsCompaction(metadata)
   const lastCompaction = getLastCompaction(metadata)
   const isLastOpCompaction = isCompactionSnapshot(metadata)
+  const refsBySnapshot = getRefsBySnapshot(metadata)
+
+  // Compare the current snapshot with its parent until the user picks others
+  const defaultCompareTo = currentSnapshot ?? metadata.snapshots?.[metadata.snapshots.length - 1]
+  const compareFromId = compareSnapshotIds.from ?? defaultCompareTo?.['parent-snapshot-id']
+  const compareToId = compareSnapshotIds.to ?? defaultCompareTo?.['snapshot-id']
 
   // Get selected schema or default to current
   const displayedSchemaId = selectedSchemaId ?? metadata['current-schema-id']
   const displayedSchema = metadata.schemas.find((s) => s['schema-id'] === displayedSchemaId)
 
-  // Find previous schema for comparison
+  // Compare with the chosen schema, defaulting to the one before the displayed version
   const schemaIndex = metadata.schemas.findIndex((s) => s['schema-id'] === displayedSchemaId)
-  const previousSchema = schemaIndex > 0 ? metadata.schemas[schemaIndex - 1] : null
-  const schemaChanges = previousSchema && displayedSchema ? compareSchemas(previousSchema, displayedSchema) : null
+  const sortedSchemas = [...metadata.schemas].sort((a, b) => b['schema-id'] - a['schema-id'])
+  const baseSchema = compareSchemaId === 'none'
+    ? null
+    : compareSchemaId !== null
+      ? metadata.schemas.find((s) => s['schema-id'] === compareSchemaId) ?? null
+      : schemaIndex > 0 ? metadata.schemas[schemaIndex - 1] : null
+  const schemaChanges = baseSchema && displayedSchema && baseSchema !== displayedSchema
+    ? compareSchemas(baseSchema, displayedSchema)
+    : null
 
   return (
     <div className="flex flex-col h-full overflow-hidden">
@@ -202,6 +237,19 @@ export function TablePage() {
               </div>
             </div>
 
+            {historicalVersion && (
+              <div className="flex items-center gap-3 mb-6 p-3 rounded-md bg-yellow-50 border border-yellow-200 text-sm text-yellow-900">
+                <History className="h-4 w-4 flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  Viewing metadata as of {formatTimestamp(historicalVersion.timestampMs)}
+                  <span className="font-mono text-xs ml-2 break-all">{historicalVersion.file}</span>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => selectHistoricalVersion(null)}>
+                  Back to current
+                </Button>
+              </div>
+            )}
+
             {/* Stat Cards */}
             {tableMetrics && (
               <div className="grid grid-cols-4 gap-4 mb-6">
@@ -226,19 +274,13 @@ export function TablePage() {
             )}
 
             {/* Tabs */}
-            <div className="flex gap-4 border-b">
-              {[
-                { id: 'overview', label: 'Overview' },
-                { id: 'schema', label: 'Schema' },
-                { id: 'snapshots', label: 'Snapshots' },
-                { id: 'connect', label: 'Connect' },
-                { id: 'properties', label: 'Properties' },
-              ].map((tab) => (
+            <div className="flex gap-4 border-b overflow-x-auto">
+              {TABLE_TABS.map((tab) => (
                 <button
                   key={tab.id}
-                  onClick={() => setActiveTab(tab.id as any)}
+                  onClick={() => selectTab(tab.id)}
                   className={cn(
-                    'px-4 py-2 font-medium text-sm transition-colors border-b-2',
+                    'px-4 py-2 font-medium text-sm transition-colors border-b-2 whitespace-nowrap',
                     activeTab === tab.id
                       ? 'border-primary text-primary'
                       : 'border-transparent text-muted-foreground hover:text-foreground'
@@ -516,12 +558,33 @@ export function TablePage() {
                         <label className="text-sm text-muted-foreground">Version:</label>
                         <select
                           value={displayedSchemaId}
-                          onChange={(e) => setSelectedSchemaId(Number(e.target.value))}
+                          onChange={(e) => {
+                            const schemaId = Number(e.target.value)
+                            setSelectedSchemaId(schemaId)
+                            if (compareSchemaId === schemaId) setCompareSchemaId(null)
+                          }}
+                          className="border rounded px-3 py-1.5 text-sm"
+                        >
+                          {sortedSchemas.map((schema) => (
+                            <option key={schema['schema-id']} value={schema['schema-id']}>
+                              Schema {schema['schema-id']}
+                              {schema['schema-id'] === metadata['current-schema-id'] ? ' (Current)' : ''}
+                            </option>
+                          ))}
+                        </select>
+                        <label className="text-sm text-muted-foreground ml-2">Compare with:</label>
+                        <select
+                          value={compareSchemaId === null ? 'previous' : String(compareSchemaId)}
+                          onChange={(e) => {
+                            const value = e.target.value
+                            setCompareSchemaId(value === 'previous' ? null : value === 'none' ? 'none' : Number(value))
+                          }}
                           className="border rounded px-3 py-1.5 text-sm"
                         >
-                          {[...metadata.schemas]
-                            .sort((a, b) => b['schema-id'] - a['schema-id'])
-                            .slice(0, 10)
+                          <option value="previous">Previous version</option>
+                          <option value="none">Nothing</option>
+                          {sortedSchemas
+                            .filter((schema) => schema['schema-id'] !== displayedSchemaId)
                             .map((schema) => (
                               <option key={schema['schema-id']} value={schema['schema-id']}>
                                 Schema {schema['schema-id']}
@@ -533,36 +596,20 @@ export function TablePage() {
                     </div>
                   </CardHeader>
                   <CardContent>
-                    {schemaChanges && (schemaChanges.added.length > 0 || schemaChanges.removed.length > 0 || schemaChanges.modified.length > 0) ? (
+                    {hasSchemaChanges(schemaChanges) ? (
                       <div className="space-y-3">
-                        <div className="flex items-center gap-4 text-sm">
-                          {schemaChanges.added.length > 0 && (
-                            <div className="flex items-center gap-1">
-                              <span className="w-3 h-3 rounded-full bg-green-500"></span>
-                              <span className="text-muted-foreground">{schemaChanges.added.length} added</span>
-                            </div>
-                          )}
-                          {schemaChanges.removed.length > 0 && (
-                            <div className="flex items-center gap-1">
-                              <span className="w-3 h-3 rounded-full bg-red-500"></span>
-                              <span className="text-muted-foreground">{schemaChanges.removed.length} removed</span>
-                            </div>
-                          )}
-                          {schemaChanges.modified.length > 0 && (
-                            <div className="flex items-center gap-1">
-                              <span className="w-3 h-3 rounded-full bg-yellow-500"></span>
-                              <span className="text-muted-foreground">{schemaChanges.modified.length} modified</span>
-                            </div>
-                          )}
-                        </div>
+                        <SchemaChangeSummary changes={schemaChanges} />
                         <p className="text-xs text-muted-foreground">
-                          Changes from Schema {previousSchema?.['schema-id']} → Schema {displayedSchemaId}
+                          Changes from Schema {baseSchema?.['schema-id']} → Schema {displayedSchemaId}
                         </p>
+                        <SchemaChangeDetails changes={schemaChanges} />
                       </div>
-                    ) : schemaIndex > 0 ? (
-                      <p className="text-sm text-muted-foreground">No changes from previous version</p>
-                    ) : (
+                    ) : baseSchema && baseSchema !== displayedSchema ? (
+                      <p className="text-sm text-muted-foreground">No changes from Schema {baseSchema['schema-id']}</p>
+                    ) : compareSchemaId === null && schemaIndex === 0 ? (
                       <p className="text-sm text-muted-foreground">This is the first schema version</p>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">Pick a version to compare with</p>
                     )}
                   </CardContent>
                 </Card>
@@ -570,100 +617,62 @@ export function TablePage() {
                 {/* Schema Fields Table */}
                 <Card>
                   <CardHeader>
-                    <CardTitle className="font-light">Schema Fields (ID: {displayedSchema['schema-id']})</CardTitle>
-                    <CardDescription>{displayedSchema.fields.length} fields</CardDescription>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="overflow-x-auto">
-                      <table className="w-full text-sm">
-                        <thead className="border-b">
-                          <tr className="text-left">
-                            <th className="py-2 px-4 font-medium">ID</th>
-                            <th className="py-2 px-4 font-medium">Name</th>
-                            <th className="py-2 px-4 font-medium">Type</th>
-                            <th className="py-2 px-4 font-medium">Required</th>
-                            <th className="py-2 px-4 font-medium">Status</th>
-                          </tr>
-                        </thead>
-                        <tbody>
-                          {displayedSchema.fields.map((field) => {
-                            const isAdded = schemaChanges?.added.some(f => f.id === field.id)
-                            const isRemoved = schemaChanges?.removed.some(f => f.id === field.id)
-                            const modification = schemaChanges?.modified.find(m => m.field.id === field.id)
-
-                            return (
-                              <tr
-                                key={field.id}
-                                className={cn(
-                                  'border-b last:border-b-0',
-                                  isAdded && 'bg-green-50',
-                                  isRemoved && 'bg-red-50',
-                                  modification && 'bg-yellow-50'
-                                )}
-                              >
-                                <td className="py-2 px-4 text-muted-foreground">{field.id}</td>
-                                <td className="py-2 px-4 font-medium">{field.name}</td>
-                                <td className="py-2 px-4 font-mono text-xs">
-                                  {modification && modification.typeChanged ? (
-                                    <div className="space-y-1">
-                                      <div className="text-red-600 line-through">
-                                        {typeof modification.oldType === 'string' ? modification.oldType : JSON.stringify(modification.oldType)}
-                                      </div>
-                                      <div className="text-green-600">
-                                        {typeof field.type === 'string' ? field.type : JSON.stringify(field.type)}
-                                      </div>
-                                    </div>
-                                  ) : (
-                                    typeof field.type === 'string' ? field.type : JSON.stringify(field.type)
-                                  )}
-                                </td>
-                                <td className="py-2 px-4">
-                                  {modification && modification.requiredChanged ? (
-                                    <div className="space-y-1">
-                                      <div className="text-red-600 line-through text-xs">
-                                        {modification.oldRequired ? 'Yes' : 'No'}
-                                      </div>
-                                      <div className="text-green-600 text-xs">
-                                        {field.required ? 'Yes' : 'No'}
-                                      </div>
-                                    </div>
-                                  ) : field.required ? (
-                                    <span className="text-green-600">Yes</span>
-                                  ) : (
-                                    <span className="text-muted-foreground">No</span>
-                                  )}
-                                </td>
-                                <td className="py-2 px-4">
-                                  {isAdded && (
-                                    <span className="inline-flex items-center gap-1 text-xs bg-green-100 text-green-700 px-2 py-1 rounded">
-                                      <span className="w-2 h-2 rounded-full bg-green-500"></span>
-                                      Added
-                                    </span>
-                                  )}
-                                  {isRemoved && (
-                                    <span className="inline-flex items-center gap-1 text-xs bg-red-100 text-red-700 px-2 py-1 rounded">
-                                      <span className="w-2 h-2 rounded-full bg-red-500"></span>
-                                      Removed
-                                    </span>
-                                  )}
-                                  {modification && (
-                                    <span className="inline-flex items-center gap-1 text-xs bg-yellow-100 text-yellow-700 px-2 py-1 rounded">
-                                      <span className="w-2 h-2 rounded-full bg-yellow-500"></span>
-                                      Modified
-                                    </span>
-                                  )}
-                                </td>
-                              </tr>
-                            )
-                          })}
-                        </tbody>
-                      </table>
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <CardTitle className="font-light">Schema Fields (ID: {displayedSchema['schema-id']})</CardTitle>
+                        <CardDescription>{displayedSchema.fields.length} fields</CardDescription>
+                      </div>
+                      <Button variant="outline" size="sm" onClick={() => setShowSchemaExport(!showSchemaExport)}>
+                        <Download className="h-4 w-4 mr-2" />
+                        {showSchemaExport ? 'Hide export' : 'Export schema'}
+                      </Button>
                     </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {showSchemaExport && (
+                      <SchemaExportPanel
+                        namespace={namespace!}
+                        table={table!}
+                        schema={displayedSchema}
+                        spec={metadata['partition-specs'].find((spec) => spec['spec-id'] === metadata['default-spec-id'])}
+                        sortOrder={metadata['sort-orders']?.find((order) => order['order-id'] === metadata['default-sort-order-id'])}
+                        formatVersion={metadata['format-version']}
+                      />
+                    )}
+                    <SchemaFieldsTable schema={displayedSchema} changes={schemaChanges} highlightFieldId={highlightedFieldId} />
                   </CardContent>
                 </Card>
               </div>
             )}
 
+            {activeTab === 'partitions' && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="font-light">Partition Specs</CardTitle>
+                  <CardDescription>
+                    {metadata['partition-specs'].length} spec{metadata['partition-specs'].length !== 1 ? 's' : ''}, newest first
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <PartitionsTab metadata={metadata} />
+                </CardContent>
+              </Card>
+            )}
+
+            {activeTab === 'sort-order' && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="font-light">Sort Orders</CardTitle>
+                  <CardDescription>
+                    How rows are ordered within data files, newest order first
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <SortOrderTab metadata={metadata} />
+                </CardContent>
+              </Card>
+            )}
+
             {activeTab === 'snapshots' && (
               <Card>
                 <CardHeader>
@@ -674,156 +683,47 @@ export function TablePage() {
                         {metadata.snapshots?.length || 0} snapshots
                       </CardDescription>
                     </div>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => setSnapshotSortOrder(prev => prev === 'desc' ? 'asc' : 'desc')}
-                    >
-                      <Calendar className="h-4 w-4 mr-2" />
-                      {snapshotSortOrder === 'desc' ? 'Newest First' : 'Oldest First'}
-                    </Button>
+                    <div className="flex items-center gap-2">
+                      <div className="flex rounded-md border">
+                        {(['list', 'lineage', 'compare'] as const).map((view) => (
+                          <button
+                            key={view}
+                            onClick={() => setSnapshotView(view)}
+                            className={cn(
+                              'px-3 py-1.5 text-sm capitalize transition-colors',
+                              snapshotView === view ? 'bg-primary text-primary-foreground' : 'text-muted-foreground hover:text-foreground'
+                            )}
+                          >
+                            {view}
+                          </button>
+                        ))}
+                      </div>
+                      {snapshotView === 'list' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setSnapshotSortOrder(prev => prev === 'desc' ? 'asc' : 'desc')}
+                        >
+                          <Calendar className="h-4 w-4 mr-2" />
+                          {snapshotSortOrder === 'desc' ? 'Newest First' : 'Oldest First'}
+                        </Button>
+                      )}
+                    </div>
                   </div>
                 </CardHeader>
                 <CardContent>
-                  {metadata.snapshots && metadata.snapshots.length > 0 ? (
+                  {snapshotView === 'lineage' ? (
+                    <SnapshotLineageGraph metadata={metadata} onSelectSnapshot={showSnapshotDetails} />
+                  ) : snapshotView === 'compare' ? (
+                    <SnapshotComparePanel
+                      tableData={displayedTableData}
+                      fromId={compareFromId}
+                      toId={compareToId}
+                      onChange={(from, to) => setCompareSnapshotIds({ from, to })}
+                    />
+                  ) : metadata.snapshots && metadata.snapshots.length > 0 ? (
                     <div className="space-y-6">
-                      {/* Time Series Chart - Last 7 Days */}
-                      {(() => {
-                        const dailyData = groupSnapshotsByDay(metadata.snapshots, 7)
-                        if (dailyData.length === 0) return null
-
-                        const maxCount = Math.max(...dailyData.map(d => d.count), 1)
-                        const chartHeight = 200
-                        const yAxisWidth = 60
-                        const chartWidth = 700
-                        const barWidth = chartWidth / dailyData.length
-                        const topPadding = 15
-
-                        // Calculate Y-axis ticks
-                        const yTicks = maxCount <= 5
-                          ? Array.from({ length: maxCount + 1 }, (_, i) => i)
-                          : [0, Math.ceil(maxCount / 4), Math.ceil(maxCount / 2), Math.ceil((3 * maxCount) / 4), maxCount]
-
-                        return (
-                          <div className="border rounded-lg p-6 bg-white">
-                            <div className="text-sm font-medium mb-4">Snapshot Activity (Last 7 Days)</div>
-                            <div className="overflow-x-auto">
-                              <svg
-                                width={yAxisWidth + chartWidth + 10}
-                                height={chartHeight + 40 + topPadding}
-                                className="mx-auto"
-                                onMouseLeave={() => setHoveredBar(null)}
-                              >
-                                <g transform={`translate(0, ${topPadding})`}>
-                                {/* Y-axis */}
-                                <g>
-                                  <line
-                                    x1={yAxisWidth}
-                                    y1={0}
-                                    x2={yAxisWidth}
-                                    y2={chartHeight}
-                                    stroke="#ddd"
-                                    strokeWidth="1"
-                                  />
-                                  {yTicks.map((tick) => {
-                                    const tickY = chartHeight - (tick / maxCount) * chartHeight
-                                    return (
-                                      <g key={tick}>
-                                        <line
-                                          x1={yAxisWidth - 4}
-                                          y1={tickY}
-                                          x2={yAxisWidth}
-                                          y2={tickY}
-                                          stroke="#ddd"
-                                          strokeWidth="1"
-                                        />
-                                        <text
-                                          x={yAxisWidth - 8}
-                                          y={tickY}
-                                          textAnchor="end"
-                                          alignmentBaseline="middle"
-                                          fontSize="10"
-                                          fill="#666"
-                                        >
-                                          {tick}
-                                        </text>
-                                      </g>
-                                    )
-                                  })}
-                                </g>
-
-                                {/* Bars */}
-                                {dailyData.map((item, index) => {
-                                  const barHeight = maxCount > 0 ? (item.count / maxCount) * chartHeight : 0
-                                  const x = yAxisWidth + index * barWidth
-                                  const y = chartHeight - barHeight
-
-                                  return (
-                                    <g
-                                      key={item.date}
-                                      style={{ cursor: 'pointer' }}
-                                      onMouseEnter={(e) => {
-                                        const rect = e.currentTarget.getBoundingClientRect()
-                                        setHoveredBar({
-                                          date: item.date,
-                                          count: item.count,
-                                          x: rect.left + rect.width / 2,
-                                          y: rect.top
-                                        })
-                                      }}
-                                      onMouseLeave={() => setHoveredBar(null)}
-                                    >
-                                      <rect
-                                        x={x + 4}
-                                        y={y}
-                                        width={barWidth - 8}
-                                        height={Math.max(barHeight, 2)}
-                                        fill="#5B4B8A"
-                                        rx="2"
-                                        className="hover:opacity-80 transition-opacity"
-                                      />
-                                      <text
-                                        x={x + barWidth / 2}
-                                        y={chartHeight + 15}
-                                        textAnchor="middle"
-                                        fontSize="10"
-                                        fill="#999"
-                                        style={{ pointerEvents: 'none' }}
-                                      >
-                                        {new Date(item.date).toLocaleDateString('en-US', { month: 'numeric', day: 'numeric' })}
-                                      </text>
-                                    </g>
-                                  )
-                                })}
-                                </g>
-                              </svg>
-
-                              {/* Custom Tooltip */}
-                              {hoveredBar && (
-                                <div
-                                  className="fixed z-50 bg-gray-900 text-white text-xs px-3 py-2 rounded shadow-lg pointer-events-none"
-                                  style={{
-                                    left: `${hoveredBar.x}px`,
-                                    top: `${hoveredBar.y - 40}px`,
-                                    transform: 'translateX(-50%)',
-                                  }}
-                                >
-                                  <div className="font-medium">
-                                    {new Date(hoveredBar.date).toLocaleDateString('en-US', {
-                                      weekday: 'short',
-                                      month: 'short',
-                                      day: 'numeric'
-                                    })}
-                                  </div>
-                                  <div className="text-gray-300">
-                                    {hoveredBar.count} snapshot{hoveredBar.count !== 1 ? 's' : ''}
-                                  </div>
-                                </div>
-                              )}
-                            </div>
-                          </div>
-                        )
-                      })()}
+                      <SnapshotActivityChart snapshots={metadata.snapshots} />
 
                       {/* Snapshot List */}
                       {[...metadata.snapshots]
@@ -833,11 +733,16 @@ export function TablePage() {
                         })
                         .map((snapshot) => {
                           const snapshotId = snapshot['snapshot-id']
+                          const parentId = snapshot['parent-snapshot-id']
 
                           return (
                             <div
                               key={snapshotId}
-                              className="border rounded-lg p-4 transition-colors"
+                              id={`snapshot-${snapshotId}`}
+                              className={cn(
+                                'border rounded-lg p-4 transition-colors',
+                                snapshotId === highlightedSnapshotId && 'border-primary ring-2 ring-primary/20'
+                              )}
                             >
                               <div className="flex items-start justify-between mb-2">
                                 <div>
@@ -849,10 +754,22 @@ export function TablePage() {
                                       </span>
                                     )}
                                   </div>
+                                  {refsBySnapshot.has(snapshotId) && (
+                                    <div className="flex flex-wrap gap-1 my-1">
+                                      {refsBySnapshot.get(snapshotId)!.map((ref) => (
+                                        <RefBadge key={ref.name} refName={ref.name} type={ref.type} />
+                                      ))}
+                                    </div>
+                                  )}
                                   <div className="text-sm text-muted-foreground">
                                     {formatTimestamp(snapshot['timestamp-ms'])}
                                   </div>
                                 </div>
+                                {parentId !== undefined && metadata.snapshots!.some((s) => s['snapshot-id'] === parentId) && (
+                                  <Button variant="ghost" size="sm" onClick={() => compareWithParent(snapshotId, parentId)}>
+                                    Compare with parent
+                                  </Button>
+                                )}
                               </div>
 
                               {snapshot.summary && (
@@ -878,6 +795,52 @@ export function TablePage() {
               </Card>
             )}
 
+            {activeTab === 'refs' && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="font-light">Branches & Tags</CardTitle>
+                  <CardDescription>
+                    Named snapshot references, their retention settings and how far each is from main
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <RefsTab metadata={metadata} />
+                </CardContent>
+              </Card>
+            )}
+
+            {activeTab === 'files' && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="font-light">Data & Delete Files</CardTitle>
+                  <CardDescription>
+                    Manifests decoded from the snapshot's manifest list. Expand a manifest to list its files.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <FilesTab key={historicalVersion?.file} tableData={displayedTableData} />
+                </CardContent>
+              </Card>
+            )}
+
+            {activeTab === 'history' && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="font-light">Metadata History</CardTitle>
+                  <CardDescription>
+                    Every metadata file from the metadata log. View one to see the table as of that commit.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <MetadataHistoryTab
+                    tableData={tableData}
+                    selected={historicalVersion}
+                    onSelect={selectHistoricalVersion}
+                  />
+                </CardContent>
+              </Card>
+            )}
+
             {activeTab === 'connect' && (
               <Card>
                 <CardHeader>
@@ -892,7 +855,7 @@ export function TablePage() {
                     table={table!}
                     catalogUrl={sessionStorage.getItem('iceberg-endpoint') || ''}
                     warehouse={sessionStorage.getItem('iceberg-warehouse') || undefined}
-                    authType={(sessionStorage.getItem('iceberg-auth-type') as 'bearer' | 'oauth2' | 'sigv4') || 'bearer'}
+                    authType={(sessionStorage.getItem('iceberg-auth-type') as AuthType) || 'bearer'}
                     awsRegion={sessionStorage.getItem('iceberg-aws-region') || undefined}
                     metadataLocation={tableData?.['metadata-location'] || tableData?.metadata?.location}
                   />
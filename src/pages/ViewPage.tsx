@@ -0,0 +1,438 @@
+import { useEffect, useState } from 'react'
+import { useParams, useNavigate } from 'react-router-dom'
+import { ArrowLeft, Database, ChevronRight, Copy, Check } from 'lucide-react'
+import { Button } from '@/components/ui/Button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
+import { SchemaChangeSummary, SchemaFieldsTable } from '@/components/table/SchemaFieldsTable'
+import { getClient } from '@/lib/iceberg/client'
+import { formatDate, formatRelativeTime } from '@/lib/iceberg/metrics'
+import { compareSchemas, hasSchemaChanges } from '@/lib/iceberg/schema'
+import {
+  diffLines,
+  getCurrentViewVersion,
+  getPreviousViewVersion,
+  getSqlRepresentations,
+  getViewDialects,
+} from '@/lib/iceberg/views'
+import { useCatalog } from '@/lib/context/CatalogContext'
+import { cn } from '@/lib/utils/cn'
+import type { LoadViewResult } from '@/types/iceberg'
+
+const VIEW_TABS = [
+  { id: 'definition', label: 'Definition' },
+  { id: 'versions', label: 'Versions' },
+  { id: 'schema', label: 'Schema' },
+  { id: 'properties', label: 'Properties' },
+] as const
+
+type ViewTab = (typeof VIEW_TABS)[number]['id']
+
+export function ViewPage() {
+  const { namespace, view } = useParams<{ namespace: string; view: string }>()
+  const navigate = useNavigate()
+  const { addApiCall } = useCatalog()
+  const [viewData, setViewData] = useState<LoadViewResult | null>(null)
+  const [activeTab, setActiveTab] = useState<ViewTab>('definition')
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [selectedVersionId, setSelectedVersionId] = useState<number | null>(null)
+  const [selectedDialect, setSelectedDialect] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  useEffect(() => {
+    // Version ids are only meaningful within one view, so start each view afresh
+    setViewData(null)
+    setSelectedVersionId(null)
+    setSelectedDialect(null)
+    setError('')
+    setIsLoading(true)
+    if (namespace && view) {
+      loadView()
+    }
+  }, [namespace, view])
+
+  const loadView = async () => {
+    if (!namespace || !view) return
+
+    try {
+      const client = getClient(addApiCall)
+      const result = await client.loadView(namespace.split('.'), view, { onRevalidate: setViewData })
+      setViewData(result)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load view')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-muted-foreground">Loading view...</div>
+      </div>
+    )
+  }
+
+  if (error || !viewData) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-red-600">Error: {error || 'View not found'}</div>
+      </div>
+    )
+  }
+
+  const metadata = viewData.metadata
+  const currentVersion = getCurrentViewVersion(metadata)
+  const displayedVersion =
+    metadata.versions.find((v) => v['version-id'] === selectedVersionId) || currentVersion
+  const previousVersion = displayedVersion ? getPreviousViewVersion(metadata, displayedVersion) : null
+  const dialects = getViewDialects(metadata)
+
+  const representations = displayedVersion ? getSqlRepresentations(displayedVersion) : []
+  const activeDialect =
+    selectedDialect && representations.some((r) => r.dialect === selectedDialect)
+      ? selectedDialect
+      : representations[0]?.dialect
+  const activeSql = representations.find((r) => r.dialect === activeDialect)?.sql || ''
+  const previousSql = previousVersion
+    ? getSqlRepresentations(previousVersion).find((r) => r.dialect === activeDialect)?.sql
+    : undefined
+  const sqlChanged = previousSql !== undefined && previousSql !== activeSql
+
+  const displayedSchema = displayedVersion
+    ? metadata.schemas.find((s) => s['schema-id'] === displayedVersion['schema-id'])
+    : undefined
+  const previousSchema = previousVersion
+    ? metadata.schemas.find((s) => s['schema-id'] === previousVersion['schema-id'])
+    : undefined
+  const schemaChanges =
+    previousSchema && displayedSchema && previousSchema !== displayedSchema
+      ? compareSchemas(previousSchema, displayedSchema)
+      : null
+
+  const sortedVersions = [...metadata.versions].sort((a, b) => b['version-id'] - a['version-id'])
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(activeSql)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  const versionLabel = (versionId: number) =>
+    `Version ${versionId}${versionId === metadata['current-version-id'] ? ' (Current)' : ''}`
+
+  return (
+    <div className="flex flex-col h-full overflow-hidden">
+        {/* Header */}
+        <div className="border-b bg-white p-4">
+          <div className="max-w-7xl mx-auto">
+            <Button variant="ghost" onClick={() => navigate(`/catalog?namespace=${namespace}`)} className="mb-4">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Catalog
+            </Button>
+
+            <div className="flex items-start justify-between mb-6">
+              <div>
+                <div className="flex items-center gap-2 text-sm text-muted-foreground mb-1">
+                  <Database className="h-4 w-4" />
+                  <span>{namespace}</span>
+                  <ChevronRight className="h-3 w-3" />
+                  <span className="text-foreground font-medium">{view}</span>
+                </div>
+                <h1 className="text-2xl font-semibold text-foreground">
+                  {namespace}.{view}
+                  <span className="ml-3 align-middle text-xs bg-blue-100 text-blue-700 px-2 py-1 rounded font-medium">VIEW</span>
+                </h1>
+              </div>
+            </div>
+
+            {/* Stat Cards */}
+            <div className="grid grid-cols-4 gap-4 mb-6">
+              <div className="border rounded-lg p-4 bg-white">
+                <div className="text-xs font-medium text-muted-foreground mb-1">VERSIONS</div>
+                <div className="text-2xl font-semibold">{metadata.versions.length}</div>
+              </div>
+              <div className="border rounded-lg p-4 bg-white">
+                <div className="text-xs font-medium text-muted-foreground mb-1">DIALECTS</div>
+                <div className="text-2xl font-semibold">{dialects.length}</div>
+              </div>
+              <div className="border rounded-lg p-4 bg-white">
+                <div className="text-xs font-medium text-muted-foreground mb-1">LAST UPDATED</div>
+                {currentVersion ? (
+                  <>
+                    <div className="text-2xl font-semibold">{formatRelativeTime(currentVersion['timestamp-ms'])}</div>
+                    <div className="text-xs text-muted-foreground mt-1">{formatDate(currentVersion['timestamp-ms'])}</div>
+                  </>
+                ) : (
+                  <div className="text-2xl font-semibold">N/A</div>
+                )}
+              </div>
+              <div className="border rounded-lg p-4 bg-white">
+                <div className="text-xs font-medium text-muted-foreground mb-1">FIELDS</div>
+                <div className="text-2xl font-semibold">{displayedSchema?.fields.length || 0}</div>
+              </div>
+            </div>
+
+            {/* Tabs */}
+            <div className="flex gap-4 border-b">
+              {VIEW_TABS.map((tab) => (
+                <button
+                  key={tab.id}
+                  onClick={() => setActiveTab(tab.id)}
+                  className={cn(
+                    'px-4 py-2 font-medium text-sm transition-colors border-b-2',
+                    activeTab === tab.id
+                      ? 'border-primary text-primary'
+                      : 'border-transparent text-muted-foreground hover:text-foreground'
+                  )}
+                >
+                  {tab.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-auto p-4">
+          <div className="max-w-7xl mx-auto space-y-4">
+            {activeTab !== 'properties' && displayedVersion && (
+              <div className="flex items-center justify-end gap-2">
+                <label className="text-sm text-muted-foreground">Version:</label>
+                <select
+                  value={displayedVersion['version-id']}
+                  onChange={(e) => setSelectedVersionId(Number(e.target.value))}
+                  className="border rounded px-3 py-1.5 text-sm"
+                >
+                  {sortedVersions.map((v) => (
+                    <option key={v['version-id']} value={v['version-id']}>
+                      {versionLabel(v['version-id'])}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {activeTab === 'definition' && displayedVersion && (
+              <>
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="font-light">SQL Definition</CardTitle>
+                    <CardDescription>
+                      Default namespace: {displayedVersion['default-namespace'].join('.') || '(none)'}
+                      {displayedVersion['default-catalog'] && ` · Default catalog: ${displayedVersion['default-catalog']}`}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {representations.length === 0 ? (
+                      <div className="text-center py-8 text-muted-foreground">
+                        No SQL representations in this version
+                      </div>
+                    ) : (
+                      <>
+                        <div className="flex gap-2 flex-wrap">
+                          {representations.map((r) => (
+                            <button
+                              key={r.dialect}
+                              onClick={() => setSelectedDialect(r.dialect)}
+                              className={cn(
+                                'px-3 py-1 rounded-full text-xs font-medium border transition-colors',
+                                r.dialect === activeDialect
+                                  ? 'border-primary bg-primary/10 text-primary'
+                                  : 'border-gray-200 text-muted-foreground hover:text-foreground'
+                              )}
+                            >
+                              {r.dialect}
+                            </button>
+                          ))}
+                        </div>
+                        <div className="border rounded-lg bg-gray-50 overflow-hidden">
+                          <div className="flex items-center justify-between px-4 py-2 border-b bg-white">
+                            <span className="text-sm font-medium">{activeDialect}</span>
+                            <Button variant="ghost" size="sm" onClick={handleCopy} className="h-8">
+                              {copied ? (
+                                <>
+                                  <Check className="h-4 w-4 mr-2" />
+                                  Copied!
+                                </>
+                              ) : (
+                                <>
+                                  <Copy className="h-4 w-4 mr-2" />
+                                  Copy
+                                </>
+                              )}
+                            </Button>
+                          </div>
+                          <pre className="p-4 overflow-x-auto text-sm">
+                            <code className="language-sql">{activeSql}</code>
+                          </pre>
+                        </div>
+                      </>
+                    )}
+                  </CardContent>
+                </Card>
+
+                {previousVersion && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="font-light">Changes</CardTitle>
+                      <CardDescription>
+                        Changes from Version {previousVersion['version-id']} → Version {displayedVersion['version-id']}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      {hasSchemaChanges(schemaChanges) ? (
+                        <SchemaChangeSummary changes={schemaChanges} />
+                      ) : (
+                        <p className="text-sm text-muted-foreground">No schema changes from previous version</p>
+                      )}
+                      {sqlChanged ? (
+                        <pre className="border rounded-lg overflow-x-auto text-sm font-mono">
+                          {diffLines(previousSql!, activeSql).map((line, index) => (
+                            <div
+                              key={index}
+                              className={cn(
+                                'px-4',
+                                line.type === 'added' && 'bg-green-50 text-green-700',
+                                line.type === 'removed' && 'bg-red-50 text-red-700'
+                              )}
+                            >
+                              {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                              {line.text}
+                            </div>
+                          ))}
+                        </pre>
+                      ) : (
+                        <p className="text-sm text-muted-foreground">
+                          {previousSql === undefined
+                            ? `No ${activeDialect} representation in previous version`
+                            : 'No SQL changes from previous version'}
+                        </p>
+                      )}
+                    </CardContent>
+                  </Card>
+                )}
+              </>
+            )}
+
+            {activeTab === 'versions' && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="font-light">Version History</CardTitle>
+                  <CardDescription>{metadata.versions.length} versions</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {sortedVersions.map((v) => {
+                    const isSelected = v['version-id'] === displayedVersion?.['version-id']
+                    return (
+                      <button
+                        key={v['version-id']}
+                        onClick={() => setSelectedVersionId(v['version-id'])}
+                        className={cn(
+                          'w-full text-left border rounded-lg p-4 transition-colors',
+                          isSelected ? 'border-primary bg-primary/5' : 'hover:border-primary/50'
+                        )}
+                      >
+                        <div className="flex items-start justify-between mb-2">
+                          <div>
+                            <div className="font-medium">
+                              Version {v['version-id']}
+                              {v['version-id'] === metadata['current-version-id'] && (
+                                <span className="ml-2 text-xs bg-primary text-primary-foreground px-2 py-1 rounded">
+                                  Current
+                                </span>
+                              )}
+                            </div>
+                            <div className="text-sm text-muted-foreground">
+                              {new Date(v['timestamp-ms']).toLocaleString()}
+                            </div>
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            Schema {v['schema-id']} · {getSqlRepresentations(v).map((r) => r.dialect).join(', ')}
+                          </div>
+                        </div>
+                        {Object.keys(v.summary).length > 0 && (
+                          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mt-3 text-sm">
+                            {Object.entries(v.summary).map(([key, value]) => (
+                              <div key={key}>
+                                <div className="text-muted-foreground text-xs">{key}</div>
+                                <div className="font-medium break-all">{value}</div>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </button>
+                    )
+                  })}
+                </CardContent>
+              </Card>
+            )}
+
+            {activeTab === 'schema' && displayedSchema && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="font-light">Schema Fields (ID: {displayedSchema['schema-id']})</CardTitle>
+                  <CardDescription>
+                    {displayedSchema.fields.length} fields
+                    {previousVersion && hasSchemaChanges(schemaChanges) &&
+                      ` · changes from Version ${previousVersion['version-id']} highlighted`}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <SchemaFieldsTable schema={displayedSchema} changes={schemaChanges} />
+                </CardContent>
+              </Card>
+            )}
+
+            {activeTab === 'properties' && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="font-light">View Properties</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-3 mb-6">
+                    <div>
+                      <div className="text-sm text-muted-foreground">View UUID</div>
+                      <div className="font-mono text-sm">{metadata['view-uuid']}</div>
+                    </div>
+                    <div>
+                      <div className="text-sm text-muted-foreground">Location</div>
+                      <div className="font-mono text-sm break-all">{metadata.location}</div>
+                    </div>
+                    <div>
+                      <div className="text-sm text-muted-foreground">Metadata Location</div>
+                      <div className="font-mono text-sm break-all">{viewData['metadata-location']}</div>
+                    </div>
+                  </div>
+                  {metadata.properties && Object.keys(metadata.properties).length > 0 ? (
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead className="border-b">
+                          <tr className="text-left">
+                            <th className="py-2 px-4 font-medium">Property</th>
+                            <th className="py-2 px-4 font-medium">Value</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {Object.entries(metadata.properties).map(([key, value]) => (
+                            <tr key={key} className="border-b last:border-b-0">
+                              <td className="py-2 px-4 font-medium">{key}</td>
+                              <td className="py-2 px-4 font-mono text-xs break-all">{value}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  ) : (
+                    <div className="text-center py-8 text-muted-foreground">
+                      No properties defined
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+    </div>
+  )
+}
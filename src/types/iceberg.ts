@@ -15,9 +15,25 @@ export interface TableIdentifier {
   name: string
 }
 
+export interface ListNamespacesResponse {
+  namespaces: string[][]
+  'next-page-token'?: string | null
+}
+
+export interface ListTablesResponse {
+  identifiers: TableIdentifier[]
+  'next-page-token'?: string | null
+}
+
+export interface PageOptions {
+  pageToken?: string
+  pageSize?: number
+}
+
 export interface Schema {
   type: 'struct'
   'schema-id': number
+  'identifier-field-ids'?: number[]
   fields: SchemaField[]
 }
 
@@ -54,6 +70,18 @@ export interface PartitionField {
   transform: string
 }
 
+export interface SortOrder {
+  'order-id': number
+  fields: SortField[]
+}
+
+export interface SortField {
+  transform: string
+  'source-id': number
+  direction: 'asc' | 'desc'
+  'null-order': 'nulls-first' | 'nulls-last'
+}
+
 export interface Snapshot {
   'snapshot-id': number
   'parent-snapshot-id'?: number
@@ -64,6 +92,14 @@ export interface Snapshot {
   'schema-id'?: number
 }
 
+export interface SnapshotRef {
+  'snapshot-id': number
+  type: 'branch' | 'tag'
+  'max-ref-age-ms'?: number
+  'max-snapshot-age-ms'?: number // branches only
+  'min-snapshots-to-keep'?: number // branches only
+}
+
 export interface TableMetadata {
   'format-version': number
   'table-uuid': string
@@ -78,6 +114,7 @@ export interface TableMetadata {
   properties?: Record<string, string>
   'current-snapshot-id'?: number
   snapshots?: Snapshot[]
+  refs?: Record<string, SnapshotRef>
   'snapshot-log'?: Array<{
     'snapshot-id': number
     'timestamp-ms': number
@@ -86,24 +123,113 @@ export interface TableMetadata {
     'metadata-file': string
     'timestamp-ms': number
   }>
-  'sort-orders'?: Array<{
-    'order-id': number
-    fields: Array<{
-      transform: string
-      'source-id': number
-      direction: 'asc' | 'desc'
-      'null-order': 'nulls-first' | 'nulls-last'
-    }>
-  }>
+  'sort-orders'?: SortOrder[]
   'default-sort-order-id'?: number
 }
 
+export interface StorageCredential {
+  prefix: string
+  config: Record<string, string>
+}
+
 export interface LoadTableResult {
   'metadata-location'?: string
   metadata: TableMetadata
   config?: Record<string, string>
+  'storage-credentials'?: StorageCredential[]
+}
+
+// Decoded manifest list entry (field names follow the Avro schema in the spec)
+export interface ManifestFile {
+  manifest_path: string
+  manifest_length: number
+  partition_spec_id: number
+  content?: number // 0 = data, 1 = deletes (v2)
+  sequence_number?: number
+  min_sequence_number?: number
+  added_snapshot_id: number
+  added_files_count?: number
+  existing_files_count?: number
+  deleted_files_count?: number
+  added_data_files_count?: number // v1 name
+  existing_data_files_count?: number // v1 name
+  deleted_data_files_count?: number // v1 name
+  added_rows_count?: number
+  existing_rows_count?: number
+  deleted_rows_count?: number
+}
+
+// Decoded data or delete file from a manifest entry
+export interface DataFile {
+  content?: number // 0 = data, 1 = position deletes, 2 = equality deletes
+  file_path: string
+  file_format: string
+  partition: Record<string, unknown>
+  record_count: number
+  file_size_in_bytes: number
+  column_sizes?: Map<number, number>
+  value_counts?: Map<number, number>
+  null_value_counts?: Map<number, number>
+  lower_bounds?: Map<number, Uint8Array>
+  upper_bounds?: Map<number, Uint8Array>
+  equality_ids?: number[]
+}
+
+export interface ManifestEntry {
+  status: number // 0 = existing, 1 = added, 2 = deleted
+  snapshot_id?: number
+  sequence_number?: number
+  data_file: DataFile
+}
+
+export interface ListViewsResponse {
+  identifiers: TableIdentifier[]
+  'next-page-token'?: string | null
+}
+
+export interface SQLViewRepresentation {
+  type: 'sql'
+  sql: string
+  dialect: string
+}
+
+export type ViewRepresentation = SQLViewRepresentation
+
+export interface ViewVersion {
+  'version-id': number
+  'timestamp-ms': number
+  'schema-id': number
+  summary: Record<string, string>
+  representations: ViewRepresentation[]
+  'default-catalog'?: string
+  'default-namespace': string[]
+}
+
+export interface ViewHistoryEntry {
+  'version-id': number
+  'timestamp-ms': number
+}
+
+export interface ViewMetadata {
+  'view-uuid': string
+  'format-version': number
+  location: string
+  'current-version-id': number
+  versions: ViewVersion[]
+  'version-log': ViewHistoryEntry[]
+  schemas: Schema[]
+  properties?: Record<string, string>
+}
+
+export interface LoadViewResult {
+  'metadata-location': string
+  metadata: ViewMetadata
+  config?: Record<string, string>
 }
 
+// How the worker authenticates to the catalog for a session
+export type AuthType = 'bearer' | 'oauth2' | 'sigv4' | 'azure' | 'gcp'
+
 export interface CatalogSession {
   endpoint: string
   token: string
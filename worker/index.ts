@@ -18,6 +18,19 @@ export interface Env {
 // Session expires after 24 hours
 const SESSION_DURATION = 24 * 60 * 60 * 1000
 
+// Largest object the storage proxy will stream back (metadata.json, manifest lists, manifests)
+const MAX_STORAGE_READ_BYTES = 64 * 1024 * 1024
+
+// Hosts the storage proxy will read from; anything else (e.g. an `s3.endpoint` or
+// `gcs.service.host` pointing elsewhere) is rejected so the worker can't be used to fetch arbitrary URLs
+const STORAGE_HOST_PATTERNS = [
+  /(^|\.)s3[.-]([a-z0-9-]+\.)*amazonaws\.com(\.cn)?$/, // Amazon S3
+  /^([a-z0-9.-]+\.)?[a-z0-9]+\.r2\.cloudflarestorage\.com$/, // Cloudflare R2 (path-style or virtual-hosted)
+  /^storage\.googleapis\.com$/, // Google Cloud Storage
+  /^[a-z0-9]+\.(dfs|blob)\.core\.windows\.net$/, // Azure Data Lake Storage
+  /^onelake\.(dfs|blob)\.fabric\.microsoft\.com$/, // Microsoft OneLake
+]
+
 /**
  * Generate a secure random session ID
  */
@@ -178,6 +191,8 @@ async function handleLogin(request: Request, env: Env): Promise<Response> {
 
     // Validate and prepare credentials based on auth type
     let credentials: any = {}
+    // Temporary credentials from the AssumeRole call made to validate a SigV4 role login
+    let assumedRole: Awaited<ReturnType<typeof assumeAwsRole>> | null = null
 
     if (authType === 'bearer') {
       const { token } = body
@@ -194,24 +209,94 @@ async function handleLogin(request: Request, env: Env): Promise<Response> {
       }
       credentials = { token }
     } else if (authType === 'oauth2') {
-      const { oauthEndpoint, clientId, clientSecret, oauthScope } = body
-      if (!clientId || !clientSecret) {
+      const {
+        oauthEndpoint,
+        oauthGrantType = 'client_credentials',
+        oauthClientAuth = 'basic',
+        clientId,
+        clientSecret,
+        oauthScope,
+        oauthAudience,
+        oauthResource,
+        subjectToken,
+        subjectTokenType,
+        actorToken,
+        actorTokenType,
+        refreshToken,
+      } = body
+
+      const validationError = validateOAuth2Login(oauthGrantType, oauthClientAuth, body)
+      if (validationError) {
         await trackAnalytics(env, 'login_failed', request, null, {
           endpoint_domain: new URL(endpoint).hostname,
-          error: 'Missing OAuth2 client ID or secret',
+          error: validationError,
           error_type: 'validation'
         })
         return new Response(
-          JSON.stringify({ error: 'Missing OAuth2 client ID or secret' }),
+          JSON.stringify({ error: validationError }),
           { status: 400, headers: { 'Content-Type': 'application/json' } }
         )
       }
+
       // If OAuth endpoint not provided, default to catalog endpoint + /v1/oauth/tokens
-      const effectiveOauthEndpoint = oauthEndpoint || `${endpoint}/v1/oauth/tokens`
-      const effectiveScope = oauthScope || 'PRINCIPAL_ROLE:ALL'
-      credentials = { oauthEndpoint: effectiveOauthEndpoint, clientId, clientSecret, scope: effectiveScope }
+      const oauthCredentials: OAuth2Credentials = {
+        oauthEndpoint: oauthEndpoint || `${endpoint}/v1/oauth/tokens`,
+        grantType: oauthGrantType,
+        clientAuth: oauthClientAuth,
+        clientId: clientId || undefined,
+        clientSecret: clientSecret || undefined,
+        // Polaris and Snowflake Open Catalog need a principal role for client credentials
+        scope: oauthScope || (oauthGrantType === 'client_credentials' ? 'PRINCIPAL_ROLE:ALL' : undefined),
+        audience: oauthAudience || undefined,
+        resource: oauthResource || undefined,
+        subjectToken: subjectToken || undefined,
+        subjectTokenType: subjectToken ? subjectTokenType || ACCESS_TOKEN_TYPE : undefined,
+        actorToken: actorToken || undefined,
+        actorTokenType: actorToken ? actorTokenType || ACCESS_TOKEN_TYPE : undefined,
+        refreshToken: refreshToken || undefined,
+      }
+      credentials = oauthCredentials
+    } else if (authType === 'azure') {
+      const { azureTenantId, clientId, clientSecret, azureScope } = body
+      if (!azureTenantId || !clientId || !clientSecret) {
+        await trackAnalytics(env, 'login_failed', request, null, {
+          endpoint_domain: new URL(endpoint).hostname,
+          error: 'Missing Azure tenant ID, client ID or client secret',
+          error_type: 'validation'
+        })
+        return new Response(
+          JSON.stringify({ error: 'Missing Azure tenant ID, client ID or client secret' }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        )
+      }
+      // An Entra ID app registration is an OAuth2 client credentials grant against the tenant's endpoint
+      const azureCredentials: OAuth2Credentials = {
+        oauthEndpoint: `https://login.microsoftonline.com/${encodeURIComponent(azureTenantId)}/oauth2/v2.0/token`,
+        grantType: 'client_credentials',
+        clientAuth: 'body',
+        clientId,
+        clientSecret,
+        scope: azureScope || AZURE_STORAGE_SCOPE,
+      }
+      credentials = azureCredentials
+    } else if (authType === 'gcp') {
+      const { gcpServiceAccountKey, gcpScope } = body
+      try {
+        credentials = parseGcpServiceAccountKey(gcpServiceAccountKey, gcpScope || GCP_CLOUD_PLATFORM_SCOPE)
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        await trackAnalytics(env, 'login_failed', request, null, {
+          endpoint_domain: new URL(endpoint).hostname,
+          error: message,
+          error_type: 'validation'
+        })
+        return new Response(
+          JSON.stringify({ error: message }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        )
+      }
     } else if (authType === 'sigv4') {
-      const { awsAccessKey, awsSecretKey, awsRegion, awsService } = body
+      const { awsAccessKey, awsSecretKey, awsSessionToken, awsRegion, awsService, awsRoleArn, awsExternalId } = body
       if (!awsAccessKey || !awsSecretKey || !awsRegion) {
         await trackAnalytics(env, 'login_failed', request, null, {
           endpoint_domain: new URL(endpoint).hostname,
@@ -223,7 +308,51 @@ async function handleLogin(request: Request, env: Env): Promise<Response> {
           { status: 400, headers: { 'Content-Type': 'application/json' } }
         )
       }
-      credentials = { awsAccessKey, awsSecretKey, awsRegion, awsService: awsService || 's3tables' }
+      const awsCredentials: AwsCredentials = {
+        awsAccessKey,
+        awsSecretKey,
+        awsSessionToken: awsSessionToken || undefined,
+        awsRegion,
+        awsService: awsService || 's3tables',
+        roleArn: awsRoleArn || undefined,
+        externalId: awsExternalId || undefined,
+      }
+
+      // Fail the login now rather than on the first catalog request if the role can't be assumed
+      if (awsCredentials.roleArn) {
+        try {
+          assumedRole = await assumeAwsRole(awsCredentials)
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error)
+          await trackAnalytics(env, 'login_failed', request, null, {
+            endpoint_domain: new URL(endpoint).hostname,
+            error: message,
+            error_type: 'assume_role'
+          })
+          return new Response(
+            JSON.stringify({ error: message }),
+            { status: 400, headers: { 'Content-Type': 'application/json' } }
+          )
+        }
+      }
+      credentials = awsCredentials
+    }
+
+    // Extra headers for gateways in front of the catalog, encrypted along with the credentials
+    const { headers: customHeaders, error: headerError } = parseCustomHeaders(body.customHeaders, body.accessDelegation)
+    if (headerError) {
+      await trackAnalytics(env, 'login_failed', request, null, {
+        endpoint_domain: new URL(endpoint).hostname,
+        error: headerError,
+        error_type: 'validation'
+      })
+      return new Response(
+        JSON.stringify({ error: headerError }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+    if (Object.keys(customHeaders).length > 0) {
+      credentials = { ...credentials, customHeaders }
     }
 
     // Generate session ID
@@ -260,6 +389,11 @@ async function handleLogin(request: Request, env: Env): Promise<Response> {
       country
     ).run()
 
+    // Reuse the role credentials from the login check for the session's first requests
+    if (assumedRole) {
+      await storeSessionToken(`aws_credentials:${sessionId}`, assumedRole, env, key)
+    }
+
     // Track successful login event
     await trackAnalytics(env, 'login_success', request, sessionId, {
       endpoint_domain: new URL(endpoint).hostname
@@ -292,6 +426,41 @@ async function handleLogin(request: Request, env: Env): Promise<Response> {
   }
 }
 
+/**
+ * Validate the custom headers from the login form, adding X-Iceberg-Access-Delegation when
+ * vended credentials are requested. Headers the worker sets itself can't be overridden.
+ */
+function parseCustomHeaders(
+  entries: unknown,
+  accessDelegation: unknown
+): { headers: Record<string, string>; error?: string } {
+  const headers: Record<string, string> = {}
+
+  for (const entry of Array.isArray(entries) ? entries : []) {
+    const name = typeof entry?.name === 'string' ? entry.name.trim() : ''
+    const value = typeof entry?.value === 'string' ? entry.value.trim() : ''
+    if (!name && !value) continue
+
+    if (!/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(name)) {
+      return { headers, error: `Invalid header name: ${name || '(empty)'}` }
+    }
+    if (/[\r\n]/.test(value)) {
+      return { headers, error: `Invalid value for header ${name}` }
+    }
+    const lower = name.toLowerCase()
+    if (RESERVED_HEADERS.includes(lower) || lower.startsWith('x-amz-')) {
+      return { headers, error: `Header ${name} is set by the worker and can't be overridden` }
+    }
+    headers[name] = value
+  }
+
+  if (accessDelegation) {
+    headers['X-Iceberg-Access-Delegation'] = typeof accessDelegation === 'string' ? accessDelegation : 'vended-credentials'
+  }
+
+  return { headers }
+}
+
 /**
  * Get session data and decrypt credentials
  */
@@ -323,25 +492,492 @@ async function getSession(sessionId: string, env: Env) {
   }
 }
 
+// Headers the proxy sets itself, which custom headers may not replace
+const RESERVED_HEADERS = ['authorization', 'host', 'content-type', 'content-length', 'x-session-id', 'if-none-match']
+
+// Auth types where the worker obtains (and caches) a bearer access token for the session
+const TOKEN_AUTH_TYPES = ['oauth2', 'azure', 'gcp']
+
+// Cached OAuth2 tokens and temporary AWS credentials are refreshed this long before they expire
+const SESSION_TOKEN_REFRESH_MARGIN = 60 * 1000
+
+// Lifetime assumed when the token endpoint doesn't return expires_in
+const OAUTH_TOKEN_DEFAULT_LIFETIME = 5 * 60 * 1000
+
+// Default token scopes for the Azure (OneLake / Azure Storage) and Google (BigLake) modes
+const AZURE_STORAGE_SCOPE = 'https://storage.azure.com/.default'
+const GCP_CLOUD_PLATFORM_SCOPE = 'https://www.googleapis.com/auth/cloud-platform'
+
+// Lifetime (in seconds) requested for a Google service account JWT, the most Google allows
+const GCP_JWT_LIFETIME = 60 * 60
+
+/**
+ * The parts of a Google service account JSON key a session needs to mint access tokens
+ */
+interface GcpServiceAccount {
+  clientEmail: string
+  privateKey: string
+  privateKeyId?: string
+  tokenUri: string
+  scope: string
+}
+
+// How long (in seconds) temporary credentials from STS AssumeRole are requested for
+const AWS_ASSUME_ROLE_DURATION = 60 * 60
+
+/**
+ * AWS credentials stored (encrypted) with a SigV4 session. With `roleArn` set, the keys
+ * are only used to call STS AssumeRole and requests are signed with the role's credentials.
+ */
+interface AwsCredentials {
+  awsAccessKey: string
+  awsSecretKey: string
+  awsSessionToken?: string
+  awsRegion: string
+  awsService?: string
+  roleArn?: string
+  externalId?: string
+  roleSessionName?: string
+}
+
+// RFC 8693 token type assumed for subject and actor tokens when none is given
+const ACCESS_TOKEN_TYPE = 'urn:ietf:params:oauth:token-type:access_token'
+
+/**
+ * OAuth2 credentials stored (encrypted) with a session. Sessions created before grant
+ * types were configurable only have the client credentials fields.
+ */
+interface OAuth2Credentials {
+  oauthEndpoint: string
+  grantType?: 'client_credentials' | 'token_exchange' | 'refresh_token'
+  clientAuth?: 'basic' | 'body'
+  clientId?: string
+  clientSecret?: string
+  scope?: string
+  audience?: string
+  resource?: string
+  subjectToken?: string
+  subjectTokenType?: string
+  actorToken?: string
+  actorTokenType?: string
+  refreshToken?: string
+}
+
+interface CachedSessionToken<T> {
+  value: T
+  expiresAt: number
+}
+
+/**
+ * Thrown when a session's credentials can no longer be used (e.g. its refresh token was
+ * rejected), so the user has to log in again
+ */
+class SessionExpiredError extends Error {}
+
+// Tokens this isolate has already fetched, and token requests in flight, keyed like `oauth_token:<session>`
+const sessionTokens = new Map<string, CachedSessionToken<unknown>>()
+const sessionTokenRequests = new Map<string, Promise<unknown>>()
+
+/**
+ * Check that a login has what its OAuth2 grant needs, returning an error message if not
+ */
+function validateOAuth2Login(grantType: string, clientAuth: string, body: any): string | null {
+  if (!['client_credentials', 'token_exchange', 'refresh_token'].includes(grantType)) {
+    return `Unsupported OAuth2 grant type: ${grantType}`
+  }
+  if (!['basic', 'body'].includes(clientAuth)) {
+    return `Unsupported OAuth2 client authentication: ${clientAuth}`
+  }
+  if (grantType === 'client_credentials' && (!body.clientId || !body.clientSecret)) {
+    return 'Missing OAuth2 client ID or secret'
+  }
+  if (grantType === 'token_exchange' && !body.subjectToken) {
+    return 'Missing OAuth2 subject token'
+  }
+  if (grantType === 'refresh_token' && !body.refreshToken) {
+    return 'Missing OAuth2 refresh token'
+  }
+  return null
+}
+
+/**
+ * Build the form body and headers for a token request. The client authenticates with
+ * HTTP Basic or, for servers that reject Basic, with client_id/client_secret in the body;
+ * public clients without a secret only send their client_id.
+ */
+function buildOAuth2TokenRequest(credentials: OAuth2Credentials): { headers: Headers; body: URLSearchParams } {
+  const body = new URLSearchParams()
+  const grantType = credentials.grantType || 'client_credentials'
+
+  if (grantType === 'token_exchange') {
+    body.set('grant_type', 'urn:ietf:params:oauth:grant-type:token-exchange')
+    body.set('subject_token', credentials.subjectToken || '')
+    body.set('subject_token_type', credentials.subjectTokenType || ACCESS_TOKEN_TYPE)
+    if (credentials.actorToken) {
+      body.set('actor_token', credentials.actorToken)
+      body.set('actor_token_type', credentials.actorTokenType || ACCESS_TOKEN_TYPE)
+    }
+  } else if (grantType === 'refresh_token') {
+    body.set('grant_type', 'refresh_token')
+    body.set('refresh_token', credentials.refreshToken || '')
+  } else {
+    body.set('grant_type', 'client_credentials')
+  }
+
+  if (credentials.scope) body.set('scope', credentials.scope)
+  if (credentials.audience) body.set('audience', credentials.audience)
+  if (credentials.resource) body.set('resource', credentials.resource)
+
+  const headers = new Headers({ 'Content-Type': 'application/x-www-form-urlencoded' })
+  const { clientId, clientSecret } = credentials
+  if (clientId && clientSecret && credentials.clientAuth !== 'body') {
+    headers.set('Authorization', `Basic ${btoa(`${clientId}:${clientSecret}`)}`)
+  } else if (clientId) {
+    body.set('client_id', clientId)
+    if (clientSecret) body.set('client_secret', clientSecret)
+  }
+
+  return { headers, body }
+}
+
 /**
- * Get OAuth2 access token using client credentials
+ * Get an OAuth2 access token with the session's grant (client credentials, token exchange or refresh token)
  */
-async function getOAuth2Token(oauthEndpoint: string, clientId: string, clientSecret: string, scope: string): Promise<string> {
-  const response = await fetch(oauthEndpoint, {
+async function getOAuth2Token(
+  credentials: OAuth2Credentials
+): Promise<{ accessToken: string; expiresIn?: number; refreshToken?: string }> {
+  const { headers, body } = buildOAuth2TokenRequest(credentials)
+  const response = await fetch(credentials.oauthEndpoint, {
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-      'Authorization': `Basic ${btoa(`${clientId}:${clientSecret}`)}`,
-    },
-    body: `grant_type=client_credentials&scope=${encodeURIComponent(scope)}`,
+    headers,
+    body: body.toString(),
+  })
+
+  if (!response.ok) {
+    // Token endpoints explain rejected grants in error_description (RFC 6749 section 5.2)
+    const error = await response.json().catch(() => null) as any
+    const detail = error?.error_description || error?.error
+    const message = `OAuth2 token exchange failed: ${detail || response.statusText}`
+    // A rejected refresh token won't start working again; only a new login can replace it
+    if (credentials.grantType === 'refresh_token' && (response.status === 400 || response.status === 401)) {
+      throw new SessionExpiredError(message)
+    }
+    throw new Error(message)
+  }
+
+  const data = await response.json() as any
+  return {
+    accessToken: data.access_token,
+    expiresIn: typeof data.expires_in === 'number' ? data.expires_in : undefined,
+    refreshToken: typeof data.refresh_token === 'string' ? data.refresh_token : undefined,
+  }
+}
+
+function isSessionTokenFresh(token: CachedSessionToken<unknown>): boolean {
+  return token.expiresAt - SESSION_TOKEN_REFRESH_MARGIN > Date.now()
+}
+
+/**
+ * Get a short-lived token for a session, reusing it until shortly before it expires.
+ * Tokens are kept in memory and encrypted in KV (so other isolates can reuse them), and
+ * concurrent requests for the same token share a single call to `fetchToken`.
+ */
+async function getCachedSessionToken<T>(
+  cacheKey: string,
+  env: Env,
+  fetchToken: (key: CryptoKey) => Promise<CachedSessionToken<T>>
+): Promise<T> {
+  const cached = sessionTokens.get(cacheKey) as CachedSessionToken<T> | undefined
+  if (cached && isSessionTokenFresh(cached)) {
+    return cached.value
+  }
+
+  let pending = sessionTokenRequests.get(cacheKey) as Promise<T> | undefined
+  if (!pending) {
+    pending = loadSessionToken(cacheKey, env, fetchToken).finally(() => sessionTokenRequests.delete(cacheKey))
+    sessionTokenRequests.set(cacheKey, pending)
+  }
+  return pending
+}
+
+async function loadSessionToken<T>(
+  cacheKey: string,
+  env: Env,
+  fetchToken: (key: CryptoKey) => Promise<CachedSessionToken<T>>
+): Promise<T> {
+  const key = await getEncryptionKey(env)
+
+  const stored = await env.TOKENS.get(cacheKey)
+  if (stored) {
+    const token = JSON.parse(await decryptToken(stored, key)) as CachedSessionToken<T>
+    if (isSessionTokenFresh(token)) {
+      sessionTokens.set(cacheKey, token)
+      return token.value
+    }
+  }
+
+  const token = await fetchToken(key)
+  await storeSessionToken(cacheKey, token, env, key)
+  return token.value
+}
+
+/**
+ * Cache a session token in memory and, encrypted, in KV until shortly before it expires
+ */
+async function storeSessionToken<T>(cacheKey: string, token: CachedSessionToken<T>, env: Env, key: CryptoKey): Promise<void> {
+  sessionTokens.set(cacheKey, token)
+
+  // KV can't expire entries sooner than 60 seconds; shorter-lived tokens only stay in memory
+  const ttl = Math.floor((token.expiresAt - SESSION_TOKEN_REFRESH_MARGIN - Date.now()) / 1000)
+  if (ttl >= 60) {
+    await env.TOKENS.put(cacheKey, await encryptToken(JSON.stringify(token), key), { expirationTtl: ttl })
+  }
+}
+
+/**
+ * Forget a cached token, e.g. when the catalog rejects it or the user logs out
+ */
+async function invalidateSessionToken(cacheKey: string, env: Env): Promise<void> {
+  sessionTokens.delete(cacheKey)
+  await env.TOKENS.delete(cacheKey)
+}
+
+/**
+ * Get a session's OAuth2 access token, requesting a new one only when the cached one is about to expire
+ */
+function getSessionOAuth2Token(sessionId: string, credentials: OAuth2Credentials, env: Env): Promise<string> {
+  return getCachedSessionToken(`oauth_token:${sessionId}`, env, async (key) => {
+    if (credentials.grantType !== 'refresh_token') {
+      const { accessToken, expiresIn } = await getOAuth2Token(credentials)
+      return {
+        value: accessToken,
+        expiresAt: Date.now() + (expiresIn !== undefined ? expiresIn * 1000 : OAUTH_TOKEN_DEFAULT_LIFETIME),
+      }
+    }
+
+    // The refresh token read with the session may already have been rotated, by an earlier
+    // refresh in this request or by another isolate, so always refresh with the stored one
+    let current = ((await readSessionCredentials(sessionId, env, key)) as OAuth2Credentials | null) ?? credentials
+    let result: Awaited<ReturnType<typeof getOAuth2Token>>
+    try {
+      result = await getOAuth2Token(current)
+    } catch (error) {
+      // Another isolate may have rotated it while this refresh was in flight
+      const latest = (await readSessionCredentials(sessionId, env, key)) as OAuth2Credentials | null
+      if (!(error instanceof SessionExpiredError) || !latest?.refreshToken || latest.refreshToken === current.refreshToken) {
+        throw error
+      }
+      current = latest
+      result = await getOAuth2Token(current)
+    }
+    const { accessToken, expiresIn, refreshToken } = result
+
+    // Keep a rotated refresh token, or the next refresh would present a revoked one
+    if (refreshToken && refreshToken !== current.refreshToken) {
+      await env.DB.prepare(
+        'UPDATE sessions SET encrypted_credentials = ? WHERE session_id = ?'
+      ).bind(await encryptToken(JSON.stringify({ ...current, refreshToken }), key), sessionId).run()
+    }
+
+    return {
+      value: accessToken,
+      expiresAt: Date.now() + (expiresIn !== undefined ? expiresIn * 1000 : OAUTH_TOKEN_DEFAULT_LIFETIME),
+    }
+  })
+}
+
+/**
+ * Read and decrypt a session's stored credentials without touching last_used_at
+ */
+async function readSessionCredentials(sessionId: string, env: Env, key: CryptoKey): Promise<unknown> {
+  const result = await env.DB.prepare(
+    'SELECT encrypted_credentials FROM sessions WHERE session_id = ?'
+  ).bind(sessionId).first()
+
+  return result ? JSON.parse(await decryptToken(result.encrypted_credentials as string, key)) : null
+}
+
+/**
+ * Get a session's Google access token by signing a JWT with its service account key
+ */
+function getSessionGcpToken(sessionId: string, serviceAccount: GcpServiceAccount, env: Env): Promise<string> {
+  return getCachedSessionToken(`oauth_token:${sessionId}`, env, async () => {
+    const { accessToken, expiresIn } = await getGcpAccessToken(serviceAccount)
+    return {
+      value: accessToken,
+      expiresAt: Date.now() + (expiresIn !== undefined ? expiresIn * 1000 : GCP_JWT_LIFETIME * 1000),
+    }
+  })
+}
+
+/**
+ * Get the access token for a token-based session (OAuth2, Azure Entra ID or a Google service account)
+ */
+function getSessionAccessToken(sessionId: string, authType: string, credentials: any, env: Env): Promise<string> {
+  return authType === 'gcp'
+    ? getSessionGcpToken(sessionId, credentials, env)
+    : getSessionOAuth2Token(sessionId, credentials, env)
+}
+
+/**
+ * Get the credentials to sign a session's catalog requests with: the stored keys, or
+ * temporary credentials from STS when the session assumes a role
+ */
+async function getSessionAwsCredentials(sessionId: string, credentials: AwsCredentials, env: Env): Promise<AwsCredentials> {
+  if (!credentials.roleArn) {
+    return credentials
+  }
+
+  const assumed = await getCachedSessionToken(`aws_credentials:${sessionId}`, env, () => assumeAwsRole(credentials))
+  return { ...credentials, ...assumed }
+}
+
+/**
+ * Forget every cached token for a session
+ */
+async function invalidateSessionTokens(sessionId: string, env: Env): Promise<void> {
+  await invalidateSessionToken(`oauth_token:${sessionId}`, env)
+  await invalidateSessionToken(`aws_credentials:${sessionId}`, env)
+}
+
+/**
+ * Call STS AssumeRole with the session's own keys, returning temporary credentials for the role
+ */
+async function assumeAwsRole(
+  credentials: AwsCredentials
+): Promise<CachedSessionToken<{ awsAccessKey: string; awsSecretKey: string; awsSessionToken: string }>> {
+  const params = new URLSearchParams({
+    Action: 'AssumeRole',
+    Version: '2011-06-15',
+    RoleArn: credentials.roleArn!,
+    RoleSessionName: credentials.roleSessionName || 'iceberg-rest',
+    DurationSeconds: String(AWS_ASSUME_ROLE_DURATION),
   })
+  if (credentials.externalId) {
+    params.set('ExternalId', credentials.externalId)
+  }
+
+  const url = `https://sts.${credentials.awsRegion}.amazonaws.com/?${params}`
+  const headers = await signAwsRequest(new Request(url), { ...credentials, awsService: 'sts' })
+  // STS answers in XML; the signer's JSON Accept header isn't part of the signature
+  headers.delete('Accept')
+  headers.delete('Content-Type')
+
+  const response = await fetch(url, { headers })
+  const xml = await response.text()
 
   if (!response.ok) {
-    throw new Error(`OAuth2 token exchange failed: ${response.statusText}`)
+    throw new Error(`AWS STS AssumeRole failed: ${readXmlElement(xml, 'Message') || response.statusText}`)
+  }
+
+  const awsAccessKey = readXmlElement(xml, 'AccessKeyId')
+  const awsSecretKey = readXmlElement(xml, 'SecretAccessKey')
+  const awsSessionToken = readXmlElement(xml, 'SessionToken')
+  const expiration = readXmlElement(xml, 'Expiration')
+  if (!awsAccessKey || !awsSecretKey || !awsSessionToken) {
+    throw new Error('AWS STS AssumeRole returned no credentials')
+  }
+
+  return {
+    value: { awsAccessKey, awsSecretKey, awsSessionToken },
+    expiresAt: expiration ? Date.parse(expiration) : Date.now() + AWS_ASSUME_ROLE_DURATION * 1000,
+  }
+}
+
+/**
+ * Pull what's needed out of a service account JSON key, throwing a readable error for anything else
+ */
+function parseGcpServiceAccountKey(keyJson: unknown, scope: string): GcpServiceAccount {
+  if (typeof keyJson !== 'string' || !keyJson.trim()) {
+    throw new Error('Missing Google service account key')
+  }
+
+  let key: any
+  try {
+    key = JSON.parse(keyJson)
+  } catch {
+    throw new Error('Google service account key is not valid JSON')
+  }
+  if (key.type !== 'service_account' || !key.client_email || !key.private_key) {
+    throw new Error('Google service account key must be a service_account key with client_email and private_key')
+  }
+
+  return {
+    clientEmail: key.client_email,
+    privateKey: key.private_key,
+    privateKeyId: key.private_key_id,
+    tokenUri: key.token_uri || 'https://oauth2.googleapis.com/token',
+    scope,
+  }
+}
+
+/**
+ * Exchange a JWT signed with the service account's private key for an access token (RFC 7523)
+ */
+async function getGcpAccessToken(serviceAccount: GcpServiceAccount): Promise<{ accessToken: string; expiresIn?: number }> {
+  const now = Math.floor(Date.now() / 1000)
+  const header = { alg: 'RS256', typ: 'JWT', ...(serviceAccount.privateKeyId ? { kid: serviceAccount.privateKeyId } : {}) }
+  const claims = {
+    iss: serviceAccount.clientEmail,
+    scope: serviceAccount.scope,
+    aud: serviceAccount.tokenUri,
+    iat: now,
+    exp: now + GCP_JWT_LIFETIME,
+  }
+
+  const encoder = new TextEncoder()
+  const unsignedJwt = `${base64UrlEncode(encoder.encode(JSON.stringify(header)))}.${base64UrlEncode(encoder.encode(JSON.stringify(claims)))}`
+  const signingKey = await crypto.subtle.importKey(
+    'pkcs8',
+    pemToArrayBuffer(serviceAccount.privateKey),
+    { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', signingKey, encoder.encode(unsignedJwt))
+
+  const response = await fetch(serviceAccount.tokenUri, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+      assertion: `${unsignedJwt}.${base64UrlEncode(new Uint8Array(signature))}`,
+    }).toString(),
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => null) as any
+    const detail = error?.error_description || error?.error
+    throw new Error(`Google service account token request failed: ${detail || response.statusText}`)
   }
 
   const data = await response.json() as any
-  return data.access_token
+  return { accessToken: data.access_token, expiresIn: typeof data.expires_in === 'number' ? data.expires_in : undefined }
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * Decode a PEM private key (as found in service account keys) to its DER bytes
+ */
+function pemToArrayBuffer(pem: string): ArrayBuffer {
+  const base64 = pem.replace(/-----(BEGIN|END) [A-Z ]+-----/g, '').replace(/\s+/g, '')
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0)).buffer
+}
+
+/**
+ * Read the text of the first element with this name from an AWS XML response
+ */
+function readXmlElement(xml: string, name: string): string | undefined {
+  const match = xml.match(new RegExp(`<${name}>([^<]*)</${name}>`))
+  return match?.[1]
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
 }
 
 /**
@@ -349,12 +985,12 @@ async function getOAuth2Token(oauthEndpoint: string, clientId: string, clientSec
  */
 async function signAwsRequest(
   request: Request,
-  credentials: { awsAccessKey: string; awsSecretKey: string; awsRegion: string; awsService?: string },
+  credentials: AwsCredentials,
   requestBody?: string
 ): Promise<Headers> {
   const url = new URL(request.url)
   const service = credentials.awsService || 's3tables'
-  const { awsAccessKey, awsSecretKey, awsRegion } = credentials
+  const { awsAccessKey, awsSecretKey, awsRegion, awsSessionToken } = credentials
 
   // Get current date in required formats
   const now = new Date()
@@ -363,7 +999,10 @@ async function signAwsRequest(
 
   // Prepare request components
   const method = request.method
-  const canonicalUri = url.pathname || '/'
+  // S3 expects each path segment URI-encoded exactly once (e.g. '=' in partition paths)
+  const canonicalUri = service === 's3'
+    ? url.pathname.split('/').map(segment => encodeRfc3986(decodeURIComponent(segment))).join('/') || '/'
+    : url.pathname || '/'
 
   // Sort query string parameters
   const params = new URLSearchParams(url.search)
@@ -375,8 +1014,12 @@ async function signAwsRequest(
   const payloadHash = await sha256(body)
 
   // Canonical headers (must be sorted alphabetically and lowercase)
-  const canonicalHeaders = `host:${url.host}\nx-amz-content-sha256:${payloadHash}\nx-amz-date:${amzDate}\n`
-  const signedHeaders = 'host;x-amz-content-sha256;x-amz-date'
+  let canonicalHeaders = `host:${url.host}\nx-amz-content-sha256:${payloadHash}\nx-amz-date:${amzDate}\n`
+  let signedHeaders = 'host;x-amz-content-sha256;x-amz-date'
+  if (awsSessionToken) {
+    canonicalHeaders += `x-amz-security-token:${awsSessionToken}\n`
+    signedHeaders += ';x-amz-security-token'
+  }
 
   // Create canonical request
   const canonicalRequest = `${method}\n${canonicalUri}\n${canonicalQueryString}\n${canonicalHeaders}\n${signedHeaders}\n${payloadHash}`
@@ -399,12 +1042,22 @@ async function signAwsRequest(
   headers.set('x-amz-date', amzDate)
   headers.set('x-amz-content-sha256', payloadHash)
   headers.set('Authorization', authorizationHeader)
+  if (awsSessionToken) {
+    headers.set('x-amz-security-token', awsSessionToken)
+  }
   headers.set('Content-Type', 'application/json')
   headers.set('Accept', 'application/json')
 
   return headers
 }
 
+/**
+ * URI-encode a path segment per RFC 3986, as required by SigV4
+ */
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+}
+
 /**
  * SHA256 hash helper
  */
@@ -502,29 +1155,38 @@ async function handleIcebergProxy(request: Request, env: Env): Promise<Response>
       headers.set('Content-Type', 'application/json')
       headers.set('Accept', 'application/json')
       headers.set('Authorization', `Bearer ${session.credentials.token}`)
-    } else if (session.authType === 'oauth2') {
-      // OAuth2 - exchange client credentials for access token
-      const accessToken = await getOAuth2Token(
-        session.credentials.oauthEndpoint,
-        session.credentials.clientId,
-        session.credentials.clientSecret,
-        session.credentials.scope || 'PRINCIPAL_ROLE:ALL'
-      )
+    } else if (TOKEN_AUTH_TYPES.includes(session.authType as string)) {
+      // OAuth2, Azure Entra ID or a Google service account - get an access token (cached per session)
+      const accessToken = await getSessionAccessToken(sessionId, session.authType as string, session.credentials, env)
       headers = new Headers()
       headers.set('Content-Type', 'application/json')
       headers.set('Accept', 'application/json')
       headers.set('Authorization', `Bearer ${accessToken}`)
     } else if (session.authType === 'sigv4') {
-      // AWS SigV4 - sign the request
+      // AWS SigV4 - sign the request, with temporary role credentials if the session assumes a role
       const targetRequest = new Request(targetUrl, {
         method: request.method,
         body: requestBody || null,
       })
-      headers = await signAwsRequest(targetRequest, session.credentials, requestBody)
+      const awsCredentials = await getSessionAwsCredentials(sessionId, session.credentials, env)
+      headers = await signAwsRequest(targetRequest, awsCredentials, requestBody)
     } else {
       throw new Error(`Unsupported auth type: ${session.authType}`)
     }
 
+    // Custom headers from the login form (tenant headers, API keys, access delegation), for every auth type.
+    // They're added after SigV4 signing, which doesn't require extra headers to be signed.
+    const customHeaders: Record<string, string> = session.credentials.customHeaders || {}
+    for (const [name, value] of Object.entries(customHeaders)) {
+      headers.set(name, value)
+    }
+
+    // Pass conditional requests through so the catalog can answer 304 for unchanged metadata
+    const ifNoneMatch = request.headers.get('If-None-Match')
+    if (ifNoneMatch) {
+      headers.set('If-None-Match', ifNoneMatch)
+    }
+
     // Proxy the request
     const proxyRequest = new Request(targetUrl, {
       method: request.method,
@@ -532,11 +1194,24 @@ async function handleIcebergProxy(request: Request, env: Env): Promise<Response>
       body: requestBody || null,
     })
 
-    const response = await fetch(proxyRequest)
-    const responseBody = await response.text()
+    let response = await fetch(proxyRequest)
+
+    // A cached token may have been revoked or expired early; get a new one and try once more
+    if (response.status === 401 && TOKEN_AUTH_TYPES.includes(session.authType as string)) {
+      await invalidateSessionToken(`oauth_token:${sessionId}`, env)
+      headers.set('Authorization', `Bearer ${await getSessionAccessToken(sessionId, session.authType as string, session.credentials, env)}`)
+      response = await fetch(new Request(targetUrl, {
+        method: request.method,
+        headers,
+        body: requestBody || null,
+      }))
+    }
+
+    const notModified = response.status === 304
+    const responseBody = notModified ? null : await response.text()
 
     const responseTime = Date.now() - startTime
-    const success = response.ok
+    const success = response.ok || notModified
 
     // Track catalog usage
     const action = path.includes('/namespaces') ? 'list_namespaces' :
@@ -559,8 +1234,18 @@ async function handleIcebergProxy(request: Request, env: Env): Promise<Response>
     const newHeaders = new Headers()
     newHeaders.set('Access-Control-Allow-Origin', '*')
     newHeaders.set('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS')
-    newHeaders.set('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Session-ID')
+    newHeaders.set('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Session-ID, If-None-Match')
+    newHeaders.set('Access-Control-Expose-Headers', 'ETag, Retry-After')
     newHeaders.set('Content-Type', 'application/json')
+    const etag = response.headers.get('ETag')
+    if (etag) {
+      newHeaders.set('ETag', etag)
+    }
+    // Lets the client back off for as long as a rate-limiting catalog asks
+    const retryAfter = response.headers.get('Retry-After')
+    if (retryAfter) {
+      newHeaders.set('Retry-After', retryAfter)
+    }
 
     return new Response(responseBody, {
       status: response.status,
@@ -568,6 +1253,17 @@ async function handleIcebergProxy(request: Request, env: Env): Promise<Response>
       headers: newHeaders,
     })
   } catch (error) {
+    // The session can't get a token any more: end it so the app sends the user back to log in
+    const sessionId = request.headers.get('X-Session-ID')
+    if (error instanceof SessionExpiredError && sessionId) {
+      await env.DB.prepare('DELETE FROM sessions WHERE session_id = ?').bind(sessionId).run()
+      await invalidateSessionTokens(sessionId, env)
+      return new Response(
+        JSON.stringify({ error: 'Session expired', message: error.message }),
+        { status: 401, headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' } }
+      )
+    }
+
     console.error('Proxy error:', error)
     return new Response(
       JSON.stringify({
@@ -585,6 +1281,202 @@ async function handleIcebergProxy(request: Request, env: Env): Promise<Response>
   }
 }
 
+/**
+ * Build a signed S3 request using vended `s3.*` credentials
+ */
+async function buildS3Request(bucket: string, key: string, config: Record<string, string>): Promise<{ url: string; headers: Headers }> {
+  const accessKeyId = config['s3.access-key-id']
+  const secretAccessKey = config['s3.secret-access-key']
+  if (!accessKeyId || !secretAccessKey) {
+    throw new Error('No S3 credentials were vended for this table')
+  }
+
+  const region = config['s3.region'] || config['client.region'] || 'us-east-1'
+  const encodedKey = key.split('/').map(encodeRfc3986).join('/')
+  let url: string
+  if (config['s3.endpoint']) {
+    // Custom endpoints (e.g. R2) - honour path-style access when requested
+    const endpoint = config['s3.endpoint'].replace(/\/$/, '')
+    url = config['s3.path-style-access'] === 'true'
+      ? `${endpoint}/${bucket}/${encodedKey}`
+      : `${endpoint.replace('://', `://${bucket}.`)}/${encodedKey}`
+  } else {
+    url = `https://${bucket}.s3.${region}.amazonaws.com/${encodedKey}`
+  }
+
+  const headers = await signAwsRequest(new Request(url), {
+    awsAccessKey: accessKeyId,
+    awsSecretKey: secretAccessKey,
+    awsRegion: region,
+    awsService: 's3',
+    awsSessionToken: config['s3.session-token'],
+  })
+  headers.set('Accept', '*/*')
+  headers.delete('Content-Type')
+
+  return { url, headers }
+}
+
+/**
+ * Build a GCS JSON API media download using a vended `gcs.oauth2.token`
+ */
+function buildGcsRequest(bucket: string, object: string, config: Record<string, string>): { url: string; headers: Headers } {
+  const token = config['gcs.oauth2.token']
+  if (!token) {
+    throw new Error('No GCS OAuth2 token was vended for this table')
+  }
+
+  const host = (config['gcs.service.host'] || 'https://storage.googleapis.com').replace(/\/$/, '')
+  const url = `${host}/storage/v1/b/${encodeURIComponent(bucket)}/o/${encodeURIComponent(object)}?alt=media`
+  const headers = new Headers()
+  headers.set('Authorization', `Bearer ${token}`)
+
+  return { url, headers }
+}
+
+/**
+ * Build an ADLS Gen2 read using a vended `adls.sas-token.<account>` SAS token
+ */
+function buildAdlsRequest(container: string, host: string, path: string, config: Record<string, string>): { url: string; headers: Headers } {
+  const accountName = host.split('.')[0]
+  // Catalogs key SAS tokens by full host or by account name
+  const sasToken = config[`adls.sas-token.${host}`]
+    || config[`adls.sas-token.${accountName}`]
+    || Object.entries(config).find(([key]) => key.startsWith(`adls.sas-token.${accountName}.`))?.[1]
+  if (!sasToken) {
+    throw new Error(`No ADLS SAS token was vended for storage account ${accountName}`)
+  }
+
+  // wasbs:// URIs point at the blob endpoint; read everything through the dfs endpoint
+  const dfsHost = host.replace('.blob.', '.dfs.')
+  const encodedPath = path.split('/').map(encodeRfc3986).join('/')
+  const url = `https://${dfsHost}/${container}/${encodedPath}?${sasToken.replace(/^\?/, '')}`
+
+  return { url, headers: new Headers() }
+}
+
+/**
+ * Build the HTTPS URL and auth headers for reading an object with vended credentials
+ */
+async function buildStorageRequest(uri: string, config: Record<string, string>): Promise<{ url: string; headers: Headers }> {
+  const s3Match = uri.match(/^s3[an]?:\/\/([^/]+)\/(.+)$/)
+  if (s3Match) {
+    return buildS3Request(s3Match[1], s3Match[2], config)
+  }
+
+  const gcsMatch = uri.match(/^gs:\/\/([^/]+)\/(.+)$/)
+  if (gcsMatch) {
+    return buildGcsRequest(gcsMatch[1], gcsMatch[2], config)
+  }
+
+  const adlsMatch = uri.match(/^(?:abfss?|wasbs?):\/\/([^@/]+)@([^/]+)\/(.+)$/)
+  if (adlsMatch) {
+    return buildAdlsRequest(adlsMatch[1], adlsMatch[2], adlsMatch[3], config)
+  }
+
+  throw new Error(`Unsupported storage URI: ${uri}`)
+}
+
+/**
+ * Reject storage URLs that aren't HTTPS requests to a standard object storage host
+ */
+function assertAllowedStorageUrl(url: string): void {
+  const { protocol, hostname } = new URL(url)
+  if (protocol !== 'https:' || !STORAGE_HOST_PATTERNS.some(pattern => pattern.test(hostname))) {
+    throw new Error(`Refusing to read from ${hostname}: not a supported object storage endpoint`)
+  }
+}
+
+/**
+ * Pass a body through while enforcing the storage read size limit
+ */
+function limitStream(body: ReadableStream<Uint8Array>, maxBytes: number): ReadableStream<Uint8Array> {
+  let total = 0
+  return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      total += chunk.byteLength
+      if (total > maxBytes) {
+        controller.error(new Error(`File exceeds the ${maxBytes} byte storage read limit`))
+        return
+      }
+      controller.enqueue(chunk)
+    },
+  }))
+}
+
+/**
+ * Read a metadata, manifest list or manifest file from object storage
+ * using the storage credentials vended by loadTable
+ */
+async function handleStorageRead(request: Request, env: Env): Promise<Response> {
+  const jsonHeaders = { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' }
+
+  try {
+    const sessionId = request.headers.get('X-Session-ID')
+    if (!sessionId) {
+      return new Response(
+        JSON.stringify({ error: 'Missing X-Session-ID header' }),
+        { status: 401, headers: jsonHeaders }
+      )
+    }
+
+    const session = await getSession(sessionId, env)
+    if (!session) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid or expired session' }),
+        { status: 401, headers: jsonHeaders }
+      )
+    }
+
+    const { uri, config } = await request.json() as { uri?: string; config?: Record<string, string> }
+    if (!uri) {
+      return new Response(
+        JSON.stringify({ error: 'Missing uri' }),
+        { status: 400, headers: jsonHeaders }
+      )
+    }
+
+    const storageRequest = await buildStorageRequest(uri, config || {})
+    assertAllowedStorageUrl(storageRequest.url)
+    // Don't follow redirects: they could lead off the allowed hosts
+    const response = await fetch(storageRequest.url, { headers: storageRequest.headers, redirect: 'manual' })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      return new Response(
+        JSON.stringify({ error: 'Storage read failed', message: `${response.status} ${response.statusText}: ${errorText.slice(0, 500)}` }),
+        { status: response.status === 404 ? 404 : 502, headers: jsonHeaders }
+      )
+    }
+
+    const contentLength = Number(response.headers.get('Content-Length') || '0')
+    if (contentLength > MAX_STORAGE_READ_BYTES) {
+      return new Response(
+        JSON.stringify({ error: 'File too large', message: `File is ${contentLength} bytes; the limit is ${MAX_STORAGE_READ_BYTES} bytes` }),
+        { status: 413, headers: jsonHeaders }
+      )
+    }
+
+    // Stream the bytes back; Content-Length may be missing, so enforce the cap while streaming too
+    return new Response(response.body ? limitStream(response.body, MAX_STORAGE_READ_BYTES) : null, {
+      status: 200,
+      headers: {
+        'Content-Type': response.headers.get('Content-Type') || 'application/octet-stream',
+        'Access-Control-Allow-Origin': '*',
+      },
+    })
+  } catch (error) {
+    console.error('Storage read error:', error)
+    return new Response(
+      JSON.stringify({
+        error: 'Storage read failed',
+        message: error instanceof Error ? error.message : String(error),
+      }),
+      { status: 400, headers: jsonHeaders }
+    )
+  }
+}
+
 /**
  * Handle logout - delete session
  */
@@ -594,6 +1486,7 @@ async function handleLogout(request: Request, env: Env): Promise<Response> {
 
     if (sessionId) {
       await env.DB.prepare('DELETE FROM sessions WHERE session_id = ?').bind(sessionId).run()
+      await invalidateSessionTokens(sessionId, env)
     }
 
     return new Response(
@@ -654,7 +1547,7 @@ export default {
         headers: {
           'Access-Control-Allow-Origin': '*',
           'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-          'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Session-ID',
+          'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Session-ID, If-None-Match',
         },
       })
     }
@@ -673,6 +1566,11 @@ export default {
       return handleAnalytics(request, env)
     }
 
+    // Handle object storage reads (manifests, metadata files)
+    if (url.pathname === '/api/storage/read' && request.method === 'POST') {
+      return handleStorageRead(request, env)
+    }
+
     // Handle Iceberg API proxy
     if (url.pathname.startsWith('/api/iceberg')) {
       return handleIcebergProxy(request, env)